@@ -28,6 +28,17 @@ export enum SessionEvent {
    */
   UserJoinedSession = 'user joined',
 
+  /**
+   * A user that disconnected is rejoining a Session with the token
+   * they received when first joining
+   */
+  RejoinSession = 'rejoin session',
+
+  /**
+   * A user that disconnected rejoined the session
+   */
+  UserRejoinedSession = 'user rejoined',
+
   /**
    * A user is being removed from a Session by the owner
    */
@@ -58,11 +69,71 @@ export enum SessionEvent {
    */
   SessionEnded = 'session ended',
 
+  /**
+   * Server is sending the Session owner the results of the ended Session
+   */
+  SessionResults = 'session results',
+
+  /**
+   * Server is sending a user their own results of the ended Session
+   */
+  UserResults = 'user results',
+
+  /**
+   * Session owner is requesting the Session scores as CSV
+   */
+  ExportResults = 'export results',
+
+  /**
+   * Session owner replacing the Session questions with a quiz document
+   */
+  ImportQuiz = 'import quiz',
+
+  /**
+   * Session owner requesting the Session questions as a quiz document
+   */
+  ExportQuiz = 'export quiz',
+
+  /**
+   * Session owner replacing the Session questions with questions in
+   * Moodle GIFT format
+   */
+  ImportGift = 'import gift',
+
+  /**
+   * Session owner replacing the Session questions with the items in an
+   * IMS QTI 2.1 package
+   */
+  ImportQti = 'import qti',
+
+  /**
+   * Session owner requesting the Session questions as an IMS QTI 2.1
+   * package
+   */
+  ExportQti = 'export qti',
+
   /**
    * A user disconnected from the Session
    */
   UserDisconnected = 'user disconnected',
 
+  /**
+   * The Session owner disconnected, and the Session will end
+   * if they do not resume it within a grace period
+   */
+  OwnerDisconnected = 'owner disconnected',
+
+  /**
+   * A Session owner is reconnecting to their Session with the token
+   * they received on creation
+   */
+  ResumeSession = 'resume session',
+
+  /**
+   * The Session owner resumed the Session after disconnecting
+   */
+  OwnerReconnected = 'owner reconnected',
+
   /**
    * The Session owner is ending a Question. The client
    * implementation can decide how to end questions, but
@@ -71,14 +142,30 @@ export enum SessionEvent {
   EndQuestion = 'end question',
 
   /**
-   * The Session owner has ended a Question. Clients that
-   * joined a Session can handle this in any desired way,
-   * as NextQuestion is sent to start the next question.
-   * Nothing happens between the two events that clients
-   * need to handle specifically.
+   * A Question has ended, either because the Session owner ended it
+   * or because its time ran out. Carries the correct answers, the
+   * explanation, and the final distribution of responses. NextQuestion
+   * is sent to start the next question.
    */
   QuestionEnded = 'question ended',
 
+  /**
+   * Server is telling a user whether their response to a graded
+   * Question that ended was correct
+   */
+  QuestionGraded = 'question graded',
+
+  /**
+   * Server is sending updated Session scores after a Question ended.
+   * Users receive the top scores and the owner receives all scores.
+   */
+  LeaderboardUpdated = 'leaderboard updated',
+
+  /**
+   * A client is requesting the current Session scores
+   */
+  GetLeaderboard = 'get leaderboard',
+
   /**
    * Server is notifying users that next question has been pushed
    */
@@ -99,6 +186,12 @@ export enum SessionEvent {
    */
   EditQuestion = 'edit question',
 
+  /**
+   * Session owner is setting the pools of questions and whether the
+   * questions are shuffled, before the quiz starts.
+   */
+  SetQuestionOrder = 'set question order',
+
   /**
    * User is responding to a question
    */
@@ -110,6 +203,12 @@ export enum SessionEvent {
    */
   QuestionResponseAdded = 'question response added',
 
+  /**
+   * Server is sending users the distribution of responses to a poll
+   * that shares its results, after a user responded
+   */
+  PollUpdated = 'poll updated',
+
   /**
    * User giving feedback to a Question
    */
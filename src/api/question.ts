@@ -4,6 +4,31 @@
 export enum QuestionFormat {
   MultipleChoiceFormat,
   FillInFormat,
+  TrueFalseFormat,
+  MultiSelectFormat,
+  NumericFormat,
+  OrderingFormat,
+  MatchingFormat,
+  PollFormat,
+  FreeTextFormat,
+  FillInBlanksFormat,
+  ScaleFormat,
+}
+
+/**
+ * How responses to a multi-select question are graded
+ */
+export enum MultiSelectScoring {
+  /**
+   * Full points only when exactly the correct choices are selected
+   */
+  AllOrNothing,
+
+  /**
+   * An equal share of the points for each correct choice selected, minus
+   * a share for each incorrect choice selected
+   */
+  PartialCredit,
 }
 
 export type Seconds = number
@@ -15,6 +40,12 @@ export interface QuestionSubmission {
   text?: string
   timeLimit?: number
   body?: QuestionSubmissionBodyType
+
+  /**
+   * Why the correct answers are correct, shown to users when the
+   * Question ends
+   */
+  explanation?: string
 }
 
 /**
@@ -24,6 +55,7 @@ export interface MultipleChoiceSubmission {
   type?: QuestionFormat.MultipleChoiceFormat
   choices?: MultipleChoiceSubmisisonAnswer[]
   answer?: number
+  shuffle?: boolean
 }
 
 export type MultipleChoiceSubmisisonAnswer = Partial<MultipleChoiceAnswer>
@@ -40,12 +72,226 @@ export interface FillInSubmission {
 }
 export type FillInSubmissionAnswer = Partial<FillInAnswer>
 
+/**
+ * Submission for a true/false question body
+ */
+export interface TrueFalseSubmission {
+  type?: QuestionFormat.TrueFalseFormat
+  answer?: boolean
+  points?: number
+}
+
+/**
+ * Submission for a multi-select question body
+ */
+export interface MultiSelectSubmission {
+  type?: QuestionFormat.MultiSelectFormat
+  choices?: Partial<MultiSelectChoice>[]
+  answers?: number[]
+  points?: number
+  scoring?: MultiSelectScoring
+  shuffle?: boolean
+}
+
+/**
+ * How far a response to a numeric question may be from the answer
+ */
+export enum ToleranceType {
+  /**
+   * The tolerance is in the same units as the answer
+   */
+  Absolute,
+
+  /**
+   * The tolerance is a percentage of the answer
+   */
+  Relative,
+}
+
+/**
+ * Submission for a numeric question body
+ */
+export interface NumericSubmission {
+  type?: QuestionFormat.NumericFormat
+  answer?: number
+  tolerance?: number
+  toleranceType?: ToleranceType
+  units?: string | null
+  points?: number
+}
+
+/**
+ * How responses to an ordering question are graded
+ */
+export enum OrderingScoring {
+  /**
+   * Full points only when every item is in the correct position
+   */
+  ExactMatch,
+
+  /**
+   * An equal share of the points for each item in the correct position
+   */
+  PartialCredit,
+}
+
+/**
+ * Submission for an ordering question body
+ */
+export interface OrderingSubmission {
+  type?: QuestionFormat.OrderingFormat
+  /**
+   * The items in their correct order
+   */
+  items?: Partial<OrderingItem>[]
+  points?: number
+  scoring?: OrderingScoring
+  shuffle?: boolean
+}
+
+/**
+ * Submission for a matching question body
+ */
+export interface MatchingSubmission {
+  type?: QuestionFormat.MatchingFormat
+  pairs?: Partial<MatchingPair>[]
+  points?: number
+}
+
+/**
+ * Submission for a poll question body
+ */
+export interface PollSubmission {
+  type?: QuestionFormat.PollFormat
+  choices?: Partial<PollChoice>[]
+  multiple?: boolean
+  broadcast?: boolean
+}
+
+/**
+ * Submission for a free text question body
+ */
+export interface FreeTextSubmission {
+  type?: QuestionFormat.FreeTextFormat
+  maxLength?: number
+}
+
+/**
+ * Submission for a fill-in question with several blanks
+ */
+export interface FillInBlanksSubmission {
+  type?: QuestionFormat.FillInBlanksFormat
+  /**
+   * The accepted answers of each blank, in the order the blanks appear
+   * in the question text
+   */
+  blanks?: FillInBlankSubmission[]
+}
+
+/**
+ * Submission for one blank of a fill-in question
+ */
+export interface FillInBlankSubmission {
+  answers?: FillInSubmissionAnswer[]
+}
+
+/**
+ * Submission for a rating scale question body
+ */
+export interface ScaleSubmission {
+  type?: QuestionFormat.ScaleFormat
+  min?: number
+  max?: number
+  minLabel?: string | null
+  maxLabel?: string | null
+}
+
+/**
+ * The data of each format of Question, keyed on format. Formats registered
+ * outside `QuestionFormat` add their own data by merging into this
+ * interface, which adds it to the submission, body, view, and response
+ * types:
+ *
+ *     declare module 'api/question' {
+ *       interface QuestionFormatTypes {
+ *         100: { submission: ..., body: ..., view: ..., response: ... }
+ *       }
+ *     }
+ */
+export interface QuestionFormatTypes {
+  [QuestionFormat.MultipleChoiceFormat]: {
+    submission: MultipleChoiceSubmission
+    body: MultipleChoice
+    view: MultipleChoiceView
+    response: MultipleChoiceResponse
+  }
+  [QuestionFormat.FillInFormat]: {
+    submission: FillInSubmission
+    body: FillIn
+    view: FillInView
+    response: FillInResponse
+  }
+  [QuestionFormat.TrueFalseFormat]: {
+    submission: TrueFalseSubmission
+    body: TrueFalse
+    view: TrueFalseView
+    response: TrueFalseResponse
+  }
+  [QuestionFormat.MultiSelectFormat]: {
+    submission: MultiSelectSubmission
+    body: MultiSelect
+    view: MultiSelectView
+    response: MultiSelectResponse
+  }
+  [QuestionFormat.NumericFormat]: {
+    submission: NumericSubmission
+    body: Numeric
+    view: NumericView
+    response: NumericResponse
+  }
+  [QuestionFormat.OrderingFormat]: {
+    submission: OrderingSubmission
+    body: Ordering
+    view: OrderingView
+    response: OrderingResponse
+  }
+  [QuestionFormat.MatchingFormat]: {
+    submission: MatchingSubmission
+    body: Matching
+    view: MatchingView
+    response: MatchingResponse
+  }
+  [QuestionFormat.PollFormat]: {
+    submission: PollSubmission
+    body: Poll
+    view: PollView
+    response: PollResponse
+  }
+  [QuestionFormat.FreeTextFormat]: {
+    submission: FreeTextSubmission
+    body: FreeText
+    view: FreeTextView
+    response: FreeTextResponse
+  }
+  [QuestionFormat.FillInBlanksFormat]: {
+    submission: FillInBlanksSubmission
+    body: FillInBlanks
+    view: FillInBlanksView
+    response: FillInBlanksResponse
+  }
+  [QuestionFormat.ScaleFormat]: {
+    submission: ScaleSubmission
+    body: Scale
+    view: ScaleView
+    response: ScaleResponse
+  }
+}
+
 /**
  * Question body data submitted from client
  */
 export type QuestionSubmissionBodyType =
-  | MultipleChoiceSubmission
-  | FillInSubmission
+  QuestionFormatTypes[keyof QuestionFormatTypes]['submission']
 
 /**
  * Question data expected to be received by clients
@@ -55,6 +301,18 @@ export interface QuestionData {
   body: QuestionBodyType
   totalPoints: number
   timeLimit: Seconds
+  explanation: string | null
+}
+
+/**
+ * Question data sent to Session participants, which omits answers
+ * and point values for individual answers
+ */
+export interface QuestionView {
+  text: string
+  body: QuestionViewBodyType
+  totalPoints: number
+  timeLimit: Seconds
 }
 
 /**
@@ -71,6 +329,69 @@ export interface FillInQuestion extends QuestionData {
   body: FillIn
 }
 
+/**
+ * Data for a true/false question.
+ */
+export interface TrueFalseQuestion extends QuestionData {
+  body: TrueFalse
+}
+
+/**
+ * Data for a multi-select question.
+ */
+export interface MultiSelectQuestion extends QuestionData {
+  body: MultiSelect
+}
+
+/**
+ * Data for a numeric question.
+ */
+export interface NumericQuestion extends QuestionData {
+  body: Numeric
+}
+
+/**
+ * Data for an ordering question.
+ */
+export interface OrderingQuestion extends QuestionData {
+  body: Ordering
+}
+
+/**
+ * Data for a matching question.
+ */
+export interface MatchingQuestion extends QuestionData {
+  body: Matching
+}
+
+/**
+ * Data for a poll question.
+ */
+export interface PollQuestion extends QuestionData {
+  body: Poll
+}
+
+/**
+ * Data for a free text question.
+ */
+export interface FreeTextQuestion extends QuestionData {
+  body: FreeText
+}
+
+/**
+ * Data for a fill-in question with several blanks.
+ */
+export interface FillInBlanksQuestion extends QuestionData {
+  body: FillInBlanks
+}
+
+/**
+ * Data for a rating scale question.
+ */
+export interface ScaleQuestion extends QuestionData {
+  body: Scale
+}
+
 /**
  * Body of a multiple choice question
  */
@@ -78,6 +399,13 @@ export interface MultipleChoice {
   type: QuestionFormat.MultipleChoiceFormat
   choices: MultipleChoiceAnswer[]
   answer: number
+
+  /**
+   * True if each participant sees the choices in their own order, which
+   * stays the same for the participant. Responses give the index of the
+   * choice as the participant saw it.
+   */
+  shuffle?: boolean
 }
 
 /**
@@ -106,41 +434,724 @@ export interface FillIn {
 export interface FillInAnswer {
   text: string
   points: number
+
+  /**
+   * How responses are compared to the answer text, which is
+   * `TextMatchMode.Exact` if not set
+   */
+  match?: TextMatchMode
+
+  /**
+   * The most edits a response may be from the answer text when matching
+   * by `TextMatchMode.EditDistance`
+   */
+  maxDistance?: number
 }
 
 /**
- * Type used once Question submission is validated
+ * How a fill-in response is compared to an answer. Every mode ignores
+ * case, and each mode other than `Pattern` also allows the differences
+ * of the modes before it.
  */
-export type QuestionBodyType = MultipleChoice | FillIn
+export enum TextMatchMode {
+  /**
+   * The response is the answer text
+   */
+  Exact,
+
+  /**
+   * Leading, trailing, and repeated whitespace is ignored
+   */
+  Trimmed,
+
+  /**
+   * Different Unicode forms of the same characters are equal
+   */
+  Normalized,
+
+  /**
+   * Accents and other diacritics are ignored
+   */
+  AccentInsensitive,
+
+  /**
+   * The response is within a number of single character insertions,
+   * deletions, or substitutions of the answer text
+   */
+  EditDistance,
+
+  /**
+   * The answer text is a regular expression that the whole trimmed
+   * response must match. Patterns cannot repeat groups that contain
+   * quantifiers or alternatives, and cannot use backreferences or
+   * lookarounds.
+   */
+  Pattern,
+}
 
 /**
- * A user's response to a multiple choice question.
+ * Body for a true/false question
  */
-export interface MultipleChoiceResponse {
-  type: QuestionFormat.MultipleChoiceFormat
+export interface TrueFalse {
+  type: QuestionFormat.TrueFalseFormat
+
   /**
-   * The name of the user submitting the response
+   * Whether the question text is true
    */
-  submitter: string
+  answer: boolean
+
   /**
-   * Choice index chosen
+   * Points given for a correct response
+   */
+  points: number
+}
+
+/**
+ * Body for a "choose all that apply" question
+ */
+export interface MultiSelect {
+  type: QuestionFormat.MultiSelectFormat
+  choices: MultiSelectChoice[]
+
+  /**
+   * Indices of every correct choice
+   */
+  answers: number[]
+
+  /**
+   * Points given for a fully correct response
+   */
+  points: number
+  scoring: MultiSelectScoring
+
+  /**
+   * True if each participant sees the choices in their own order, which
+   * stays the same for the participant. Responses give the indices of the
+   * choices as the participant saw them.
    */
+  shuffle?: boolean
+}
+
+/**
+ * A single choice for a multi-select question
+ */
+export interface MultiSelectChoice {
+  text: string
+}
+
+/**
+ * Body for a question answered with a number
+ */
+export interface Numeric {
+  type: QuestionFormat.NumericFormat
   answer: number
+
+  /**
+   * How far a correct response may be from the answer
+   */
+  tolerance: number
+  toleranceType: ToleranceType
+
+  /**
+   * Units of the answer, shown to participants
+   */
+  units: string | null
+
+  /**
+   * Points given for a correct response
+   */
+  points: number
 }
 
 /**
- * A user's response to a fill-in question.
+ * Body for a question where items are arranged into the correct order
  */
-export interface FillInResponse {
-  type: QuestionFormat.FillInFormat
+export interface Ordering {
+  type: QuestionFormat.OrderingFormat
+
   /**
-   * The name of the user submitting the response
+   * The items in their correct order
    */
-  submitter: string
+  items: OrderingItem[]
+
   /**
-   * Text that user input
+   * Indices of the items in the order they are shown to participants
    */
-  answer: string
+  displayOrder: number[]
+  points: number
+  scoring: OrderingScoring
+
+  /**
+   * True if each participant sees the items in their own order instead of
+   * `displayOrder`, which stays the same for the participant. Responses
+   * give the positions of the items as the participant saw them.
+   */
+  shuffle?: boolean
+}
+
+/**
+ * A single item to put in order
+ */
+export interface OrderingItem {
+  text: string
+}
+
+/**
+ * Body for a question where terms are matched to their definitions
+ */
+export interface Matching {
+  type: QuestionFormat.MatchingFormat
+  pairs: MatchingPair[]
+
+  /**
+   * Indices of the pairs in the order their definitions are shown to
+   * participants
+   */
+  definitionOrder: number[]
+  points: number
+}
+
+/**
+ * A term and the definition it matches
+ */
+export interface MatchingPair {
+  term: string
+  definition: string
+}
+
+/**
+ * Body for an ungraded question asking for opinions, which has no
+ * correct answer and earns no points
+ */
+export interface Poll {
+  type: QuestionFormat.PollFormat
+  choices: PollChoice[]
+
+  /**
+   * Whether users may select more than one choice
+   */
+  multiple: boolean
+
+  /**
+   * Whether the distribution of responses is sent to every user as
+   * responses are added, rather than only the owner
+   */
+  broadcast: boolean
+}
+
+/**
+ * A single choice of a poll
+ */
+export interface PollChoice {
+  text: string
+}
+
+/**
+ * Body for an ungraded question answered with any text, which has no
+ * correct answer and earns no points
+ */
+export interface FreeText {
+  type: QuestionFormat.FreeTextFormat
+
+  /**
+   * The greatest number of characters a response may have
+   */
+  maxLength: number
+}
+
+/**
+ * Body for a fill-in question whose text contains several blanks, each
+ * written as three or more underscores
+ */
+export interface FillInBlanks {
+  type: QuestionFormat.FillInBlanksFormat
+
+  /**
+   * The accepted answers of each blank, in the order the blanks appear
+   * in the question text
+   */
+  blanks: FillInBlank[]
+}
+
+/**
+ * A blank within a fill-in question and its accepted answers
+ */
+export interface FillInBlank {
+  answers: FillInAnswer[]
+}
+
+/**
+ * Body for an ungraded question answered with a whole number on a scale,
+ * such as a Likert scale, which earns no points
+ */
+export interface Scale {
+  type: QuestionFormat.ScaleFormat
+
+  /**
+   * The lowest rating
+   */
+  min: number
+
+  /**
+   * The highest rating
+   */
+  max: number
+
+  /**
+   * What the lowest rating means, such as "Strongly disagree"
+   */
+  minLabel: string | null
+
+  /**
+   * What the highest rating means, such as "Strongly agree"
+   */
+  maxLabel: string | null
+}
+
+/**
+ * Body of a multiple choice question as seen by participants
+ */
+export interface MultipleChoiceView {
+  type: QuestionFormat.MultipleChoiceFormat
+  choices: MultipleChoiceViewAnswer[]
+}
+
+/**
+ * A single choice for a multiple choice question as seen by participants
+ */
+export interface MultipleChoiceViewAnswer {
+  text: string
+}
+
+/**
+ * Body of a fill-in-the-blank question as seen by participants
+ */
+export interface FillInView {
+  type: QuestionFormat.FillInFormat
+}
+
+/**
+ * Body of a true/false question as seen by participants
+ */
+export interface TrueFalseView {
+  type: QuestionFormat.TrueFalseFormat
+}
+
+/**
+ * Body of a multi-select question as seen by participants
+ */
+export interface MultiSelectView {
+  type: QuestionFormat.MultiSelectFormat
+  choices: MultiSelectChoice[]
+}
+
+/**
+ * Body of a numeric question as seen by participants
+ */
+export interface NumericView {
+  type: QuestionFormat.NumericFormat
+  units: string | null
+}
+
+/**
+ * Body of an ordering question as seen by participants, with the items
+ * shuffled
+ */
+export interface OrderingView {
+  type: QuestionFormat.OrderingFormat
+  items: OrderingItem[]
+}
+
+/**
+ * Body of a matching question as seen by participants, with the
+ * definitions shuffled
+ */
+export interface MatchingView {
+  type: QuestionFormat.MatchingFormat
+  terms: string[]
+  definitions: string[]
+}
+
+/**
+ * Body of a poll question as seen by participants
+ */
+export interface PollView {
+  type: QuestionFormat.PollFormat
+  choices: PollChoice[]
+  multiple: boolean
+}
+
+/**
+ * Body of a free text question as seen by participants
+ */
+export interface FreeTextView {
+  type: QuestionFormat.FreeTextFormat
+  maxLength: number
+}
+
+/**
+ * Body of a fill-in question with several blanks as seen by participants
+ */
+export interface FillInBlanksView {
+  type: QuestionFormat.FillInBlanksFormat
+
+  /**
+   * The number of blanks to fill in
+   */
+  blanks: number
+}
+
+/**
+ * Body of a rating scale question as seen by participants
+ */
+export interface ScaleView {
+  type: QuestionFormat.ScaleFormat
+  min: number
+  max: number
+  minLabel: string | null
+  maxLabel: string | null
+}
+
+/**
+ * Question body type sent to participants
+ */
+export type QuestionViewBodyType =
+  QuestionFormatTypes[keyof QuestionFormatTypes]['view']
+
+/**
+ * Type used once Question submission is validated
+ */
+export type QuestionBodyType =
+  QuestionFormatTypes[keyof QuestionFormatTypes]['body']
+
+/**
+ * Statistics for a multi-select question
+ */
+export interface MultiSelectStatistics {
+  type: QuestionFormat.MultiSelectFormat
+
+  /**
+   * The number of responses selecting each choice
+   */
+  choices: number[]
+}
+
+/**
+ * Statistics for a numeric question
+ */
+export interface NumericStatistics {
+  type: QuestionFormat.NumericFormat
+
+  /**
+   * A histogram of responses, ordered by value
+   */
+  buckets: NumericBucket[]
+}
+
+/**
+ * The number of responses within a range of values. The bucket of correct
+ * answers includes both min and max. Buckets above it include only max,
+ * and buckets below it include only min.
+ */
+export interface NumericBucket {
+  min: number
+  max: number
+  count: number
+}
+
+/**
+ * Statistics for an ordering question
+ */
+export interface OrderingStatistics {
+  type: QuestionFormat.OrderingFormat
+
+  /**
+   * The most common orderings, from most to least common
+   */
+  orderings: OrderingCount[]
+}
+
+/**
+ * The number of responses arranging the items in one order
+ */
+export interface OrderingCount {
+  /**
+   * The text of the items, in the order they were arranged
+   */
+  items: string[]
+  count: number
+}
+
+/**
+ * Statistics for a matching question
+ */
+export interface MatchingStatistics {
+  type: QuestionFormat.MatchingFormat
+
+  /**
+   * The number of responses matching each pair correctly
+   */
+  pairs: number[]
+}
+
+/**
+ * Statistics for a poll question
+ */
+export interface PollStatistics {
+  type: QuestionFormat.PollFormat
+
+  /**
+   * The number of responses selecting each choice
+   */
+  choices: number[]
+}
+
+/**
+ * Statistics for a free text question
+ */
+export interface FreeTextStatistics {
+  type: QuestionFormat.FreeTextFormat
+
+  /**
+   * The most common words in responses, from most to least common.
+   * Stop words are left out, and forms of a word are counted together.
+   */
+  words: WordCount[]
+}
+
+/**
+ * The number of responses containing a word
+ */
+export interface WordCount {
+  word: string
+  count: number
+}
+
+/**
+ * Statistics for a fill-in question with several blanks
+ */
+export interface FillInBlanksStatistics {
+  type: QuestionFormat.FillInBlanksFormat
+  blanks: FillInBlankStatistics[]
+}
+
+/**
+ * Statistics about the responses to one blank
+ */
+export interface FillInBlankStatistics {
+  /**
+   * The number of responses earning points for the blank
+   */
+  correct: number
+
+  /**
+   * The number of times each response was given, keyed on the answer it
+   * matched or otherwise the lowercase response
+   */
+  frequency: { [response: string]: number }
+}
+
+/**
+ * Statistics for a rating scale question
+ */
+export interface ScaleStatistics {
+  type: QuestionFormat.ScaleFormat
+
+  /**
+   * The mean rating, or null if there are no responses
+   */
+  mean: number | null
+
+  /**
+   * The median rating, or null if there are no responses
+   */
+  median: number | null
+
+  /**
+   * The number of responses giving each rating, from the lowest rating
+   */
+  distribution: number[]
+}
+
+/**
+ * Statistics about all responses to a Question, for formats where the
+ * frequency of each distinct response does not describe the results well
+ */
+export type QuestionStatistics =
+  | MultiSelectStatistics
+  | NumericStatistics
+  | OrderingStatistics
+  | MatchingStatistics
+  | PollStatistics
+  | FreeTextStatistics
+  | FillInBlanksStatistics
+  | ScaleStatistics
+
+/**
+ * A user's response to a multiple choice question.
+ */
+export interface MultipleChoiceResponse {
+  type: QuestionFormat.MultipleChoiceFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Choice index chosen
+   */
+  answer: number
+}
+
+/**
+ * A user's response to a fill-in question.
+ */
+export interface FillInResponse {
+  type: QuestionFormat.FillInFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Text that user input
+   */
+  answer: string
+}
+
+/**
+ * A user's response to a true/false question.
+ */
+export interface TrueFalseResponse {
+  type: QuestionFormat.TrueFalseFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Whether the user thinks the question text is true
+   */
+  answer: boolean
+}
+
+/**
+ * A user's response to a multi-select question.
+ */
+export interface MultiSelectResponse {
+  type: QuestionFormat.MultiSelectFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Indices of the choices selected
+   */
+  answer: number[]
+}
+
+/**
+ * A user's response to a numeric question.
+ */
+export interface NumericResponse {
+  type: QuestionFormat.NumericFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Number that user input
+   */
+  answer: number
+}
+
+/**
+ * A user's response to an ordering question.
+ */
+export interface OrderingResponse {
+  type: QuestionFormat.OrderingFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Indices of the items as they were shown, in the order the user
+   * arranged them
+   */
+  answer: number[]
+}
+
+/**
+ * A user's response to a matching question.
+ */
+export interface MatchingResponse {
+  type: QuestionFormat.MatchingFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * For each term, the index of the definition chosen as it was shown
+   */
+  answer: number[]
+}
+
+/**
+ * A user's response to a poll question.
+ */
+export interface PollResponse {
+  type: QuestionFormat.PollFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Indices of the choices selected
+   */
+  answer: number[]
+}
+
+/**
+ * A user's response to a free text question.
+ */
+export interface FreeTextResponse {
+  type: QuestionFormat.FreeTextFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Text that user input
+   */
+  answer: string
+}
+
+/**
+ * A user's response to a fill-in question with several blanks.
+ */
+export interface FillInBlanksResponse {
+  type: QuestionFormat.FillInBlanksFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * Text that user input for each blank
+   */
+  answer: string[]
+}
+
+/**
+ * A user's response to a rating scale question.
+ */
+export interface ScaleResponse {
+  type: QuestionFormat.ScaleFormat
+  /**
+   * The name of the user submitting the response
+   */
+  submitter: string
+  /**
+   * The rating the user chose
+   */
+  answer: number
 }
 
-export type ResponseType = MultipleChoiceResponse | FillInResponse
+export type ResponseType =
+  QuestionFormatTypes[keyof QuestionFormatTypes]['response']
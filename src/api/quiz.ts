@@ -0,0 +1,57 @@
+import { QuestionSubmission } from './question'
+
+/**
+ * A quiz that can be saved by clients and loaded into any Session
+ */
+export interface QuizDocument {
+  /**
+   * Version of the document format
+   */
+  version: number
+
+  title: string
+
+  /**
+   * The questions, in order, including their time limits
+   */
+  questions: QuestionSubmission[]
+
+  /**
+   * True if the questions are asked in a different order in each session
+   */
+  shuffle?: boolean
+
+  /**
+   * Groups of questions that only some are asked from in each session
+   */
+  pools?: QuestionPool[]
+}
+
+/**
+ * A group of questions in a quiz that only some are asked from, such as
+ * five of twenty. Questions that are not in a pool are always asked.
+ */
+export interface QuestionPool {
+  /**
+   * Indices of the questions in the pool. A question can only be in
+   * one pool.
+   */
+  questions: number[]
+
+  /**
+   * The number of questions to ask from the pool
+   */
+  pick: number
+}
+
+/**
+ * A file in an IMS QTI content package
+ */
+export interface QtiFile {
+  /**
+   * Path of the file within the package
+   */
+  path: string
+
+  content: string
+}
@@ -1,4 +1,6 @@
 import { QuestionSubmission, ResponseType } from './question'
+import { QtiFile, QuestionPool, QuizDocument } from './quiz'
+import { JoinPolicy } from './session'
 import Feedback from 'session/quiz/question/feedback'
 
 /**
@@ -9,10 +11,18 @@ import Feedback from 'session/quiz/question/feedback'
  *
  */
 
-/**
- *
- */
-export interface CreateNewSession {}
+export interface CreateNewSession {
+  /**
+   * When users may join the session, defaulting to ClosedAfterStart
+   */
+  joinPolicy: JoinPolicy
+
+  /**
+   * For the OpenUntilQuestion policy, the index of the last question
+   * that users may join during
+   */
+  joinUntilQuestion: number
+}
 
 export interface JoinSession {
   /**
@@ -26,6 +36,35 @@ export interface JoinSession {
   name: string
 }
 
+export interface ResumeSession {
+  /**
+   * The id of the session
+   */
+  session: string
+
+  /**
+   * The owner token returned when the session was created
+   */
+  token: string
+}
+
+export interface RejoinSession {
+  /**
+   * The generated id of the session
+   */
+  id: string
+
+  /**
+   * The name the client joined with
+   */
+  name: string
+
+  /**
+   * The token returned when the client joined
+   */
+  token: string
+}
+
 export interface SessionKick {
   /**
    * The id of the session
@@ -100,6 +139,24 @@ export interface EditQuestion {
   question: QuestionSubmission
 }
 
+export interface SetQuestionOrder {
+  /**
+   * The id of the session
+   */
+  session: string
+
+  /**
+   * True to ask the questions in a random order
+   */
+  shuffle?: boolean
+
+  /**
+   * Groups of questions that only some are asked from, replacing any
+   * existing pools
+   */
+  pools?: QuestionPool[]
+}
+
 export interface RemoveQuestion {
   /**
    * The id of the session to add to
@@ -156,6 +213,80 @@ export interface SubmitFeedback {
   feedback: Partial<Feedback>
 }
 
+export interface GetLeaderboard {
+  /**
+   * The id of the session
+   */
+  session: string
+}
+
+export interface ExportResults {
+  /**
+   * The id of the session
+   */
+  session: string
+}
+
+export interface ImportQuiz {
+  /**
+   * The id of the session
+   */
+  session: string
+
+  /**
+   * The quiz to load, replacing any existing questions
+   */
+  quiz: QuizDocument
+}
+
+export interface ImportGift {
+  /**
+   * The id of the session
+   */
+  session: string
+
+  /**
+   * The GIFT file contents
+   */
+  text: string
+
+  /**
+   * Title for the imported quiz
+   */
+  title: string
+
+  /**
+   * Time limit given to every question, defaulting to the minimum
+   */
+  timeLimit: number
+}
+
+export interface ImportQti {
+  /**
+   * The id of the session
+   */
+  session: string
+
+  /**
+   * The files in the package
+   */
+  files: QtiFile[]
+}
+
+export interface ExportQti {
+  /**
+   * The id of the session
+   */
+  session: string
+}
+
+export interface ExportQuiz {
+  /**
+   * The id of the session
+   */
+  session: string
+}
+
 export interface SendHint {
   /**
    * Id of the session
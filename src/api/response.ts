@@ -1,7 +1,15 @@
 import { ApiError } from './error'
 import SessionEvent from './event'
 import { Feedback } from './feedback'
-import { QuestionData } from './question'
+import {
+  PollStatistics,
+  QuestionData,
+  QuestionStatistics,
+  QuestionView,
+  Seconds,
+} from './question'
+import { QtiFile, QuizDocument } from './quiz'
+import { LeaderboardEntry, SessionResults, UserResults } from './session'
 
 /**
  *
@@ -43,39 +51,127 @@ export type SuccessResponse =
   | CreateSessionSuccess
   | JoinSessionSuccess
   | UserJoinedSession
+  | RejoinSessionSuccess
+  | UserRejoinedSession
   | SessionKickSuccess
   | UserKicked
   | SessionStartSuccess
   | SessionStarted
   | SessionEndSuccess
   | SessionEnded
+  | SessionResultsReady
+  | UserResultsReady
+  | ExportResultsSuccess
+  | ImportQuizSuccess
+  | ImportGiftSuccess
+  | ImportQtiSuccess
+  | ExportQtiSuccess
+  | ExportQuizSuccess
   | UserDisconnected
+  | OwnerDisconnected
+  | ResumeSessionSuccess
+  | OwnerReconnected
   | NextQuestionSuccess
   | NextQuestion
   | AddQuestionSuccess
   | QuestionResponseSuccess
   | QuestionResponseAdded
+  | PollUpdated
   | EndQuestionSuccess
   | QuestionEnded
+  | QuestionGraded
+  | LeaderboardUpdated
+  | GetLeaderboardSuccess
   | SubmitFeedbackSuccess
   | FeedbackSubmitted
   | SendHintSuccess
   | HintReceived
   | RemoveQuestionSuccess
   | EditQuestionSuccess
+  | SetQuestionOrderSuccess
 
 export interface CreateSessionSuccess {
   status: ResponseStatus.Success
   session: string
   event: SessionEvent.CreatedSession
-  data: string
+  data: {
+    /**
+     * The id of the created session
+     */
+    id: string
+
+    /**
+     * Secret that allows the owner to resume the session after disconnecting
+     */
+    token: string
+  }
+}
+
+/**
+ * The current question of a session, sent to users that were not
+ * connected when it was pushed
+ */
+export interface CurrentQuestion {
+  /**
+   * The question index
+   */
+  index: number
+
+  /**
+   * The question as seen by participants
+   */
+  question: QuestionView
+
+  /**
+   * Time left to respond to the question
+   */
+  timeRemaining: Seconds
+
+  /**
+   * True if the user already responded to the question
+   */
+  responded: boolean
 }
 
 export interface JoinSessionSuccess {
   status: ResponseStatus.Success
   session: string
   event: SessionEvent.JoinSession
-  data: null
+  data: {
+    /**
+     * Secret that allows the user to rejoin the session after disconnecting
+     */
+    token: string
+
+    isStarted: boolean
+
+    /**
+     * The current question, if the user joined while one is accepting responses
+     */
+    question: CurrentQuestion | null
+  }
+}
+
+export interface RejoinSessionSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.RejoinSession
+  data: {
+    isStarted: boolean
+    /**
+     * The current question, if one has been pushed and has not ended
+     */
+    question: CurrentQuestion | null
+  }
+}
+
+export interface UserRejoinedSession {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.UserRejoinedSession
+  data: {
+    name: string
+  }
 }
 
 export interface UserJoinedSession {
@@ -133,6 +229,90 @@ export interface SessionEnded {
   data: null
 }
 
+export interface SessionResultsReady {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.SessionResults
+  data: SessionResults
+}
+
+export interface UserResultsReady {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.UserResults
+  data: UserResults
+}
+
+export interface ExportResultsSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ExportResults
+  data: {
+    /**
+     * Scores with one row per user and columns for each question's
+     * points and response, followed by the user's total
+     */
+    csv: string
+  }
+}
+
+export interface ImportQuizSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ImportQuiz
+  data: {
+    /**
+     * The number of questions loaded
+     */
+    questions: number
+  }
+}
+
+export interface ImportGiftSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ImportGift
+  data: {
+    /**
+     * The number of questions loaded
+     */
+    questions: number
+  }
+}
+
+export interface ImportQtiSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ImportQti
+  data: {
+    /**
+     * The number of questions loaded
+     */
+    questions: number
+  }
+}
+
+export interface ExportQtiSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ExportQti
+  data: {
+    /**
+     * The files in the package, including the manifest
+     */
+    files: QtiFile[]
+  }
+}
+
+export interface ExportQuizSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ExportQuiz
+  data: {
+    quiz: QuizDocument
+  }
+}
+
 export interface UserDisconnected {
   status: ResponseStatus.Success
   session: string
@@ -142,11 +322,54 @@ export interface UserDisconnected {
   }
 }
 
+export interface OwnerDisconnected {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.OwnerDisconnected
+  data: {
+    /**
+     * Time the owner has to resume the session before it ends
+     */
+    gracePeriod: Seconds
+  }
+}
+
+export interface ResumeSessionSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.ResumeSession
+  data: {
+    isStarted: boolean
+    hasEnded: boolean
+    /**
+     * The index of the current question
+     */
+    index: number
+    /**
+     * The current question, if there is one
+     */
+    question: QuestionData | null
+  }
+}
+
+export interface OwnerReconnected {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.OwnerReconnected
+  data: null
+}
+
 export interface NextQuestionSuccess {
   status: ResponseStatus.Success
   session: string
   event: SessionEvent.NextQuestion
-  data: null
+  data: {
+    index: number
+    /**
+     * The full Question data, including answers, for the owner
+     */
+    question: QuestionData
+  }
 }
 
 export interface NextQuestion {
@@ -155,7 +378,10 @@ export interface NextQuestion {
   event: SessionEvent.NextQuestion
   data: {
     index: number
-    question: QuestionData
+    /**
+     * The Question as seen by participants, without answers
+     */
+    question: QuestionView
   }
 }
 
@@ -178,6 +404,13 @@ export interface EditQuestionSuccess {
   }
 }
 
+export interface SetQuestionOrderSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.SetQuestionOrder
+  data: null
+}
+
 export interface RemoveQuestionSuccess {
   status: ResponseStatus.Success
   session: string
@@ -240,6 +473,11 @@ export interface QuestionResponseAdded {
      */
     firstCorrect: string
 
+    /**
+     * Statistics about all responses, for formats that have them
+     */
+    statistics: QuestionStatistics | null
+
     /**
      * The frequency of the user's response
      */
@@ -252,6 +490,23 @@ export interface QuestionResponseAdded {
   }
 }
 
+export interface PollUpdated {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.PollUpdated
+  data: {
+    /**
+     * The Question index
+     */
+    index: number
+
+    /**
+     * The number of responses selecting each choice
+     */
+    statistics: PollStatistics
+  }
+}
+
 export interface EndQuestionSuccess {
   status: ResponseStatus.Success
   session: string
@@ -265,6 +520,88 @@ export interface QuestionEnded {
   event: SessionEvent.QuestionEnded
   data: {
     question: number
+
+    /**
+     * The text of each answer that earns points
+     */
+    correctAnswers: string[]
+
+    /**
+     * Why the correct answers are correct, if the owner gave a reason
+     */
+    explanation: string | null
+
+    /**
+     * The final number of responses, keyed on response value, or null
+     * for users when the owner did not share the results of a poll
+     */
+    frequency: { [response: string]: number } | null
+
+    /**
+     * The final statistics, for formats that have them, or null for users
+     * when the owner did not share the results of a poll
+     */
+    statistics: QuestionStatistics | null
+  }
+}
+
+export interface QuestionGraded {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.QuestionGraded
+  data: {
+    /**
+     * The index of the question that ended
+     */
+    question: number
+
+    /**
+     * True if the user responded before the question ended
+     */
+    responded: boolean
+
+    /**
+     * True if the response earned full points
+     */
+    correct: boolean
+
+    points: number
+  }
+}
+
+export interface LeaderboardUpdated {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.LeaderboardUpdated
+  data: {
+    /**
+     * The index of the question that ended
+     */
+    question: number
+
+    /**
+     * Entries ordered by rank - the top entries for users, or all
+     * entries for the session owner
+     */
+    leaderboard: LeaderboardEntry[]
+  }
+}
+
+export interface GetLeaderboardSuccess {
+  status: ResponseStatus.Success
+  session: string
+  event: SessionEvent.GetLeaderboard
+  data: {
+    /**
+     * Entries ordered by rank - the top entries for users, or all
+     * entries for the session owner
+     */
+    leaderboard: LeaderboardEntry[]
+
+    /**
+     * The requesting user's own entry, or null for the session owner
+     */
+    user: LeaderboardEntry | null
   }
 }
 
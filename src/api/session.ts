@@ -0,0 +1,117 @@
+/**
+ * Policies for when users may join a Session
+ */
+export enum JoinPolicy {
+  /**
+   * Users may only join before the Session starts
+   */
+  ClosedAfterStart,
+
+  /**
+   * Users may join until the Session ends
+   */
+  OpenUntilEnd,
+
+  /**
+   * Users may join until the Session advances past a given question
+   */
+  OpenUntilQuestion,
+}
+
+/**
+ * A user's cumulative score in a Session
+ */
+export interface LeaderboardEntry {
+  /**
+   * The name of the user
+   */
+  name: string
+
+  /**
+   * Total points earned across all questions
+   */
+  points: number
+
+  /**
+   * The number of questions answered correctly (earning full points)
+   */
+  correct: number
+
+  /**
+   * Position on the leaderboard, starting at 1. Users with equal
+   * points share a rank.
+   */
+  rank: number
+}
+
+/**
+ * Results of a single question in a Session, for the Session owner
+ */
+export interface QuestionResults {
+  /**
+   * The index of the question
+   */
+  index: number
+  text: string
+  totalPoints: number
+
+  /**
+   * The text of each answer that earns points
+   */
+  correctAnswers: string[]
+
+  /**
+   * Every user's response and the points they earned
+   */
+  responses: {
+    user: string
+    response: string
+    points: number
+  }[]
+}
+
+/**
+ * Results of a finished Session, for the Session owner
+ */
+export interface SessionResults {
+  /**
+   * Every user's final score, ordered by rank
+   */
+  leaderboard: LeaderboardEntry[]
+
+  questions: QuestionResults[]
+}
+
+/**
+ * A single user's result for one question in a Session
+ */
+export interface UserQuestionResults {
+  /**
+   * The index of the question
+   */
+  index: number
+  text: string
+  totalPoints: number
+
+  /**
+   * The user's response, or null if they did not respond
+   */
+  response: string | null
+
+  /**
+   * The text of each answer that earns points
+   */
+  correctAnswers: string[]
+
+  /**
+   * Points earned by the user
+   */
+  points: number
+}
+
+/**
+ * A single user's results for a finished Session
+ */
+export interface UserResults extends LeaderboardEntry {
+  questions: UserQuestionResults[]
+}
@@ -1,9 +1,22 @@
 import { createSocketServer } from 'server'
+import { FileSessionStore } from 'session/store'
 
 const debug = require('debug')('app')
 
-const server = createSocketServer()
+// Persist sessions to a file if a path is given, otherwise keep them in memory
+const storePath = process.env.SESSION_STORE
+const store = storePath != null ? new FileSessionStore(storePath) : undefined
+
+const server = createSocketServer({ store })
 const PORT = process.env.PORT || 30000
 server.listen(PORT, () => {
   debug(`Server listening on port ${PORT}`)
 })
+
+// Write any unsaved changes before exiting
+const exit = () => {
+  const flushed = store?.flush() ?? Promise.resolve()
+  flushed.finally(() => process.exit())
+}
+process.on('SIGINT', exit)
+process.on('SIGTERM', exit)
@@ -1,30 +1,57 @@
 import SessionEvent from 'api/event'
-import { ResponseType } from 'api/question'
+import { QuestionFormat, ResponseType, Seconds } from 'api/question'
+import { JoinPolicy } from 'api/session'
 import {
   AddQuestion,
   CreateNewSession,
   EditQuestion,
   EndQuestion,
   EndSession,
+  ExportQti,
+  ExportQuiz,
+  ExportResults,
+  GetLeaderboard,
+  ImportGift,
+  ImportQti,
+  ImportQuiz,
   JoinSession,
   NextQuestion,
   QuestionResponse,
+  RejoinSession,
   RemoveQuestion,
+  ResumeSession,
   SendHint,
   SessionKick,
+  SetQuestionOrder,
   StartSession,
   SubmitFeedback,
 } from 'api/request'
-import { EventCallback, EventResponse, ResponseStatus } from 'api/response'
+import {
+  CurrentQuestion,
+  EventCallback,
+  EventResponse,
+  QuestionEnded,
+  ResponseStatus,
+} from 'api/response'
 import { Map } from 'immutable'
 import { Result } from 'result'
-import { Session } from 'session'
+import { resultsToCsv, Session, sessionResults, userResults } from 'session'
 import {
   Feedback,
+  fromQtiPackage,
+  fromQuizDocument,
   fromSubmission,
+  parseGift,
+  Question,
+  Quiz,
+  quizDocumentVersion,
   responseToString,
+  toQtiPackage,
+  toQuizDocument,
+  validatePools,
   validateResponse,
 } from 'session/quiz'
+import { MemorySessionStore, SessionStore } from 'session/store'
 import { User } from 'session/user'
 import { Server, Socket } from 'socket.io'
 
@@ -40,18 +67,64 @@ type SessionEventArgs<T> = Partial<T>
 // Handler for socket related events (connect, disconnect)
 type SocketEventHandler<T> = (args: T) => void
 
+/**
+ * Options for configuring a SessionController
+ */
+export interface SessionControllerOptions {
+  /**
+   * Store that Sessions are written to on every change, and restored
+   * from on creation. Defaults to an in-memory store.
+   */
+  store?: SessionStore
+
+  /**
+   * Time an owner has to resume their Session after disconnecting,
+   * before the Session is ended
+   */
+  ownerGracePeriod?: Seconds
+}
+
 /**
  * Manages sessions - adding, removing, and handling specific actions
  * requested by clients.
  */
 export class SessionController {
+  static readonly defaultOwnerGracePeriod: Seconds = 60
+
   private _sessions = Map<string, Session>()
+  private store: SessionStore
+  private ownerGracePeriod: Seconds
+
+  /**
+   * Timeouts that end Sessions whose owners have disconnected, keyed on Session.id
+   */
+  private ownerTimeouts = Map<string, NodeJS.Timeout>()
 
   /**
-   * Creates a new SessionController instance
+   * Creates a new SessionController instance, restoring any Sessions
+   * saved in the store
    * @param io the socket.io Server instance to use for handlers
+   * @param options controller configuration
+   */
+  constructor(private io: Server, options: SessionControllerOptions = {}) {
+    this.store = options.store ?? new MemorySessionStore()
+    this.ownerGracePeriod =
+      options.ownerGracePeriod ?? SessionController.defaultOwnerGracePeriod
+    this.restoreSessions()
+  }
+
+  /**
+   * Stops the timeouts that close Sessions whose owners disconnected and
+   * that end in-progress Questions, such as when the server shuts down.
+   * The Sessions stay in the store.
    */
-  constructor(private io: Server) {}
+  close() {
+    this.ownerTimeouts.forEach((timeout) => clearTimeout(timeout))
+    this.ownerTimeouts = this.ownerTimeouts.clear()
+    this._sessions.forEach((session) =>
+      session.liveQuiz.questions.forEach((question) => question.pause())
+    )
+  }
 
   /**
    * The current Sessions, keyed on Session.id
@@ -66,6 +139,7 @@ export class SessionController {
    */
   private addSession(session: Session) {
     this._sessions = this._sessions.set(session.id, session)
+    this.saveSession(session)
   }
 
   /**
@@ -74,6 +148,218 @@ export class SessionController {
    */
   private removeSession(session: Session) {
     this._sessions = this._sessions.delete(session.id)
+    this.store.remove(session.id)
+  }
+
+  /**
+   * Writes the current state of a Session to the store
+   * @param session Session that changed
+   */
+  private saveSession(session: Session) {
+    this.store.save(session)
+  }
+
+  /**
+   * Loads the Sessions in the store, restarting the timeouts of
+   * any in-progress Questions. Restored Sessions have no connected
+   * owner, so they end unless resumed within the grace period.
+   */
+  private restoreSessions() {
+    this.store.load().forEach((session) => {
+      debug(`restoring session ${session.id}`)
+      this._sessions = this._sessions.set(session.id, session)
+      session.liveQuiz.questions.forEach((question) => {
+        this.setQuestionTimeout(session, question)
+        question.resume()
+      })
+      this.startOwnerGracePeriod(session)
+    })
+  }
+
+  /**
+   * Starts the timeout that closes a Session if its owner
+   * does not resume it in time
+   * @param session Session whose owner disconnected
+   */
+  private startOwnerGracePeriod(session: Session) {
+    this.clearOwnerGracePeriod(session)
+
+    const SEC_TO_MS = 1000
+    const timeout = setTimeout(() => {
+      debug(`owner of session ${session.id} did not resume in time`)
+      this.ownerTimeouts = this.ownerTimeouts.delete(session.id)
+      this.closeSession(session)
+    }, this.ownerGracePeriod * SEC_TO_MS)
+
+    // Pending grace periods should not keep the process alive
+    timeout.unref()
+    this.ownerTimeouts = this.ownerTimeouts.set(session.id, timeout)
+  }
+
+  /**
+   * Cancels the timeout that closes a Session whose owner disconnected
+   * @param session Session whose owner reconnected
+   */
+  private clearOwnerGracePeriod(session: Session) {
+    const timeout = this.ownerTimeouts.get(session.id)
+    if (timeout != null) {
+      clearTimeout(timeout)
+      this.ownerTimeouts = this.ownerTimeouts.delete(session.id)
+    }
+  }
+
+  /**
+   * Ends and removes a Session, notifying all of its users
+   * and removing them from the Session's room
+   * @param session Session to close
+   */
+  private closeSession(session: Session) {
+    if (!this._sessions.has(session.id)) {
+      debug(`session ${session.id} was already closed`)
+      return
+    }
+
+    // Allow session cleanup by invoking end
+    const hadEnded = session.hasEnded
+    session.end()
+    this.removeSession(session)
+
+    // Broadcast that session has ended (because the owner left), unless
+    // the owner already ended it and sent the results
+    if (!hadEnded) {
+      this.emit(session.id, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.SessionEnded,
+        session: session.id,
+        data: null,
+      })
+      this.emitResults(session)
+    }
+
+    // Force disconnect all users in the session's room
+    this.io.in(session.id).socketsLeave(session.id)
+
+    debug(
+      `session ${session.id} removed, sessions remaining:`,
+      this.sessions.count()
+    )
+  }
+
+  /**
+   * Loads an imported Quiz into a Session, setting up timeouts for
+   * each Question
+   */
+  private replaceQuiz(session: Session, quiz: Quiz) {
+    session.loadQuiz(quiz)
+    quiz.questions.forEach((question) => {
+      this.setQuestionTimeout(session, question)
+    })
+    this.saveSession(session)
+  }
+
+  /**
+   * Sets up a Question's timeout handler to notify users when it ends
+   * @param session Session containing the Question
+   * @param question the Question
+   */
+  private setQuestionTimeout(session: Session, question: Question) {
+    question.onTimeout = () => {
+      // End the question
+      question.end()
+      this.saveSession(session)
+
+      this.emitQuestionEnded(session, question)
+    }
+  }
+
+  /**
+   * Tells everyone in a Session that a Question ended, with its answers
+   * and results, then tells each user how they did. The results of polls
+   * that the owner did not share are only sent to the owner.
+   * @param session Session containing the Question
+   * @param question the Question that ended
+   */
+  private emitQuestionEnded(session: Session, question: Question) {
+    const ended: QuestionEnded = {
+      status: ResponseStatus.Success,
+      event: SessionEvent.QuestionEnded,
+      session: session.id,
+      data: {
+        question: question.index,
+        correctAnswers: question.correctAnswers,
+        explanation: question.explanation,
+        frequency: question.frequency.toObject(),
+        statistics: question.statistics,
+      },
+    }
+
+    if (
+      question.body.type === QuestionFormat.PollFormat &&
+      !question.body.broadcast
+    ) {
+      this.emit(session.owner, ended)
+      this.emitExcept(session.id, session.owner, {
+        ...ended,
+        data: { ...ended.data, frequency: null, statistics: null },
+      })
+    } else {
+      this.emit(session.id, ended)
+    }
+
+    if (!question.isGraded) {
+      return
+    }
+
+    session.participants.forEach((participant) => {
+      const user = session.findUserById(participant.id)
+      if (user == null) {
+        return
+      }
+      const points = question.pointsFor(user.name)
+      this.emit(user.id, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.QuestionGraded,
+        session: session.id,
+        data: {
+          question: question.index,
+          responded: points != null,
+          correct: question.isCorrectFor(user.name),
+          points: points ?? 0,
+        },
+      })
+    })
+
+    this.emitLeaderboard(session, question.index)
+  }
+
+  /**
+   * Sends the updated scores after a Question ends - the top scores
+   * to users and all scores to the owner
+   * @param session Session the Question belongs to
+   * @param question index of the Question that ended
+   */
+  private emitLeaderboard(session: Session, question: number) {
+    const scoreboard = session.scoreboard
+
+    this.emitExcept(session.id, session.owner, {
+      status: ResponseStatus.Success,
+      event: SessionEvent.LeaderboardUpdated,
+      session: session.id,
+      data: {
+        question,
+        leaderboard: scoreboard.top().toArray(),
+      },
+    })
+
+    this.emit(session.owner, {
+      status: ResponseStatus.Success,
+      event: SessionEvent.LeaderboardUpdated,
+      session: session.id,
+      data: {
+        question,
+        leaderboard: scoreboard.entries.toArray(),
+      },
+    })
   }
 
   /**
@@ -85,13 +371,32 @@ export class SessionController {
       if (args instanceof Function) {
         // not called with event arguments, so any arguments received should be the callback
         callback = args
+        args = undefined
       }
       if (callback == null || !(callback instanceof Function)) {
         debug('callback was null')
         return
       }
 
+      // Sessions are closed to new users once started unless configured otherwise
+      const joinPolicy = args?.joinPolicy ?? JoinPolicy.ClosedAfterStart
+      const errors = Session.validateJoinPolicy(
+        joinPolicy,
+        args?.joinUntilQuestion
+      )
+      if (errors.length !== 0) {
+        debug('join policy was invalid')
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.CreatedSession,
+          session: null,
+          errors,
+        })
+        return
+      }
+
       const session = new Session(socket.id)
+      session.setJoinPolicy(joinPolicy, args?.joinUntilQuestion)
       debug(`client ${socket.id} creating session with id ${session.id}`)
 
       this.addSession(session)
@@ -102,7 +407,92 @@ export class SessionController {
         status: ResponseStatus.Success,
         event: SessionEvent.CreatedSession,
         session: session.id,
-        data: session.id,
+        data: {
+          id: session.id,
+          token: session.ownerToken,
+        },
+      })
+    }
+  }
+
+  /**
+   * Makes `socket` the owner of an existing Session, if it presents
+   * the Session's owner token
+   * @param socket Client socket resuming the Session
+   */
+  resumeSession(socket: Socket): SessionEventHandler<ResumeSession> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to resumeSession')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ResumeSession,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null) {
+        debug(`could not find session ${args.session} to resume`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ResumeSession,
+          session: args.session == null ? null : args.session,
+          errors: [{ field: 'session', value: null }],
+        })
+        return
+      }
+
+      if (args.token == null || args.token !== session.ownerToken) {
+        debug(`client ${socket.id} sent wrong token for session ${session.id}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ResumeSession,
+          session: session.id,
+          errors: [{ field: 'token', value: null }],
+        })
+        return
+      }
+
+      debug(`client ${socket.id} resuming session ${session.id}`)
+
+      // The previous owner socket may not have been detected as disconnected yet
+      const previousOwner = session.owner
+      if (previousOwner !== socket.id) {
+        this.io.in(previousOwner).socketsLeave(session.id)
+      }
+
+      this.clearOwnerGracePeriod(session)
+      session.setOwner(socket.id)
+      this.saveSession(session)
+      socket.join(session.id)
+
+      // Send the owner the state of the Session
+      const question = session.quiz.currentQuestion
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.ResumeSession,
+        session: session.id,
+        data: {
+          isStarted: session.isStarted,
+          hasEnded: session.hasEnded,
+          index: session.quiz.currentQuestionIndex,
+          question: question == null ? null : question.data,
+        },
+      })
+
+      // Notify users that the owner is back
+      this.emitExcept(session.id, session.owner, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.OwnerReconnected,
+        session: session.id,
+        data: null,
       })
     }
   }
@@ -157,8 +547,10 @@ export class SessionController {
         })
         return
       } else {
-        if (session.addUser(new User(args.name, socket.id))) {
+        const user = new User(args.name, socket.id)
+        if (session.addUser(user)) {
           debug(`user ${args.name} added to session ${session.id}`)
+          this.saveSession(session)
 
           // Add to room
           socket.join(session.id)
@@ -168,7 +560,11 @@ export class SessionController {
             status: ResponseStatus.Success,
             event: SessionEvent.JoinSession,
             session: session.id,
-            data: null,
+            data: {
+              token: user.token,
+              isStarted: session.isStarted,
+              question: this.currentQuestionFor(session, user),
+            },
           })
 
           // Broadcast that a user has joined
@@ -193,6 +589,98 @@ export class SessionController {
     }
   }
 
+  /**
+   * Reconnects a user that disconnected from a Session, if the client
+   * presents the user's token
+   * @param socket Client socket rejoining the Session
+   */
+  rejoinSession(socket: Socket): SessionEventHandler<RejoinSession> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to rejoinSession')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.RejoinSession,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.id ?? '')
+      if (session == null) {
+        debug(`could not find session ${args.id ?? ''} for user to rejoin`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.RejoinSession,
+          session: args.id == null ? null : args.id,
+          errors: [
+            { field: 'session', value: args.id == null ? null : args.id },
+          ],
+        })
+        return
+      }
+
+      if (args.name == null) {
+        debug(`user rejoining name was null`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.RejoinSession,
+          session: session.id,
+          errors: [{ field: 'name', value: null }],
+        })
+        return
+      }
+
+      const previous = session.findUserByName(args.name)
+      const user = session.rejoinUser(args.name, args.token ?? '', socket.id)
+      if (previous == null || user == null) {
+        debug(`user ${args.name} could not rejoin session ${session.id}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.RejoinSession,
+          session: session.id,
+          errors: [{ field: 'token', value: null }],
+        })
+        return
+      }
+
+      debug(`user ${user.name} rejoined session ${session.id}`)
+      this.saveSession(session)
+
+      // The user's previous socket may not have been detected as disconnected yet
+      if (previous.id !== user.id) {
+        this.io.in(previous.id).socketsLeave(session.id)
+      }
+      socket.join(session.id)
+
+      // Send the user what they need to continue the quiz
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.RejoinSession,
+        session: session.id,
+        data: {
+          isStarted: session.isStarted,
+          question: this.currentQuestionFor(session, user),
+        },
+      })
+
+      // Broadcast that the user is back
+      this.emitExcept(session.id, socket.id, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.UserRejoinedSession,
+        session: session.id,
+        data: {
+          name: user.name,
+        },
+      })
+    }
+  }
+
   /**
    * Adds a question to the Session's quiz
    * @param socket Client socket owning the Session
@@ -259,6 +747,10 @@ export class SessionController {
 
           session.quiz.addQuestion(question)
 
+          // Set up the Question's timeout for when it ends
+          this.setQuestionTimeout(session, question)
+          this.saveSession(session)
+
           // Use callback to notify session owner of success
           callback({
             status: ResponseStatus.Success,
@@ -266,22 +758,6 @@ export class SessionController {
             session: session.id,
             data: null,
           })
-
-          // Set up the Question's timeout for when it ends
-          question.onTimeout = () => {
-            // End the question
-            question.end()
-
-            // Broadcast to users that question ended
-            this.emit(session.id, {
-              status: ResponseStatus.Success,
-              event: SessionEvent.QuestionEnded,
-              session: session.id,
-              data: {
-                question: question.index,
-              },
-            })
-          }
         }
       }
     }
@@ -361,6 +837,7 @@ export class SessionController {
         }
 
         debug('question removed')
+        this.saveSession(session)
 
         // Use callback to notify session owner of success
         callback({
@@ -481,6 +958,10 @@ export class SessionController {
 
           debug('question edited')
 
+          // Set up the Question's timeout for when it ends
+          this.setQuestionTimeout(session, question)
+          this.saveSession(session)
+
           // Use callback to notify session owner of success
           callback({
             status: ResponseStatus.Success,
@@ -488,38 +969,24 @@ export class SessionController {
             session: session.id,
             data: null,
           })
-
-          // Set up the Question's timeout for when it ends
-          question.onTimeout = () => {
-            // End the question
-            question.end()
-
-            // Broadcast to users that question ended
-            this.emit(session.id, {
-              status: ResponseStatus.Success,
-              event: SessionEvent.QuestionEnded,
-              session: session.id,
-              data: {
-                question: question.index,
-              },
-            })
-          }
         }
       }
     }
   }
 
   /**
-   * Removes a user from the owner's Session
+   * Sets the pools of questions and whether the questions are shuffled in
+   * a Session that has not started. The questions to ask are drawn when
+   * the Session starts.
    * @param socket Client socket owning the Session
    */
-  removeUserFromSession(socket: Socket): SessionEventHandler<SessionKick> {
+  setQuestionOrder(socket: Socket): SessionEventHandler<SetQuestionOrder> {
     return (args, callback) => {
       if (args == null || args instanceof Function) {
-        debug('no args passed to removeUserFromSession')
+        debug('no args passed to setQuestionOrder')
         args?.({
           status: ResponseStatus.Failure,
-          event: SessionEvent.SessionKick,
+          event: SessionEvent.SetQuestionOrder,
           session: null,
           errors: null,
         })
@@ -532,30 +999,104 @@ export class SessionController {
 
       const session = this.sessions.get(args.session ?? '')
       if (session == null || session.owner !== socket.id) {
-        debug(`could not find session ${args.session} with owner ${socket.id}`)
+        debug(`client ${socket.id} was not owner of any session`)
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.SessionKick,
+          event: SessionEvent.SetQuestionOrder,
           session: session == null ? null : session.id,
           errors: [
             { field: 'session', value: session == null ? null : session.id },
           ],
         })
-      } else if (args.name == null) {
-        debug('missing name field')
+        return
+      }
+
+      if (session.isStarted || session.hasEnded) {
+        debug(`session ${session.id} already started, cannot set order`)
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.SessionKick,
+          event: SessionEvent.SetQuestionOrder,
           session: session.id,
-          errors: [{ field: 'name', value: null }],
+          errors: null,
         })
-      } else {
-        const user = session.removeUser(args.name)
-        if (user == null) {
-          debug(`could not remove user ${args.name}`)
-          callback({
-            status: ResponseStatus.Failure,
-            event: SessionEvent.SessionKick,
+        return
+      }
+
+      const errors = validatePools(args.pools, session.quiz.allQuestions.size)
+      if (args.shuffle != null && typeof args.shuffle !== 'boolean') {
+        errors.push({ field: 'shuffle', value: null })
+      }
+      if (errors.length !== 0) {
+        debug('question order has invalid format')
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.SetQuestionOrder,
+          session: session.id,
+          errors,
+        })
+        return
+      }
+
+      session.quiz.setShuffle(args.shuffle ?? false)
+      session.quiz.setPools(args.pools ?? [])
+      this.saveSession(session)
+
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.SetQuestionOrder,
+        session: session.id,
+        data: null,
+      })
+    }
+  }
+
+  /**
+   * Removes a user from the owner's Session
+   * @param socket Client socket owning the Session
+   */
+  removeUserFromSession(socket: Socket): SessionEventHandler<SessionKick> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to removeUserFromSession')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.SessionKick,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(`could not find session ${args.session} with owner ${socket.id}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.SessionKick,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
+        })
+      } else if (args.name == null) {
+        debug('missing name field')
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.SessionKick,
+          session: session.id,
+          errors: [{ field: 'name', value: null }],
+        })
+      } else {
+        const user = session.removeUser(args.name)
+        if (user == null) {
+          debug(`could not remove user ${args.name}`)
+          callback({
+            status: ResponseStatus.Failure,
+            event: SessionEvent.SessionKick,
             session: session.id,
             errors: [{ field: 'name', value: args.name }],
           })
@@ -563,6 +1104,7 @@ export class SessionController {
         }
 
         debug(`removed user ${args.name}`)
+        this.saveSession(session)
 
         // Notify session owner the kick was successful
         callback({
@@ -639,6 +1181,7 @@ export class SessionController {
       debug(`session ${session.id} starting`)
 
       session.start()
+      this.saveSession(session)
 
       // Notify session owner of success
       callback({
@@ -681,10 +1224,475 @@ export class SessionController {
 
       const session = this.sessions.get(args.session ?? '')
       if (session == null || session.owner !== socket.id) {
-        debug(`could not find session with owner ${socket.id}`)
+        debug(`could not find session with owner ${socket.id}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.NextQuestion,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
+        })
+        return
+      }
+
+      if (!session.isStarted) {
+        debug(`session ${session.id} is not started, not sending next question`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.NextQuestion,
+          session: session.id,
+          errors: null,
+        })
+        return
+      }
+
+      const nextQuestion = session.quiz.advanceToNextQuestion()
+      if (nextQuestion == null) {
+        debug(`session ${session.id} - quiz has no more questions`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.NextQuestion,
+          session: session.id,
+          errors: [
+            { field: 'numQuestions', value: session.quiz.numQuestions },
+            {
+              field: 'currentQuestion',
+              value: session.quiz.currentQuestionIndex,
+            },
+          ],
+        })
+        return
+      }
+
+      debug(`session ${session.id} sending next question`)
+      this.saveSession(session)
+
+      const index = session.quiz.currentQuestionIndex
+
+      // Notify session owner of success, sending the full Question
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.NextQuestion,
+        session: session.id,
+        data: { index, question: nextQuestion.data },
+      })
+
+      // Send the next question to each user, without its answers
+      session.participants.forEach((participant) => {
+        const user = session.findUserById(participant.id)
+        if (user == null) {
+          return
+        }
+        this.emit(user.id, {
+          status: ResponseStatus.Success,
+          event: SessionEvent.NextQuestion,
+          session: session.id,
+          data: { index, question: nextQuestion.viewFor(user.name) },
+        })
+      })
+    }
+  }
+
+  /**
+   * Checks and adds a user's response to a Quiz Question
+   * @param socket Client socket submitting response
+   */
+  addQuestionResponse(socket: Socket): SessionEventHandler<QuestionResponse> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to addQuestionResponse')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null) {
+        debug(`could not find session ${args.session} to respond to`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: args.session == null ? null : args.session,
+          errors: [{ field: 'session', value: null }],
+        })
+        return
+      }
+
+      const user = session.findUserByName(args.name ?? '')
+      if (user == null || user.id !== socket.id) {
+        debug(`could not add response by unknown user`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: session.id,
+          errors: [{ field: 'name', value: args.name ?? null }],
+        })
+        return
+      }
+
+      if (session.quiz.currentQuestion == null) {
+        debug(
+          `could not respond to session ${session.id} - not started (question null)`
+        )
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: session.id,
+          errors: [{ field: 'currentQuestionIndex', value: null }],
+        })
+        return
+      }
+
+      if (
+        args.index == null ||
+        args.index !== session.quiz.currentQuestionIndex
+      ) {
+        debug(
+          `could not respond to session ${session.id} - args.index (${args.index}) out of range`
+        )
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: session.id,
+          errors: [
+            { field: 'index', value: args.index == null ? null : args.index },
+          ],
+        })
+        return
+      }
+
+      if (!validateResponse(args.response)) {
+        debug(`could not respond to session ${session.id} - args.response null`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: session.id,
+          errors: [{ field: 'response', value: null }],
+        })
+        return
+      }
+      // Responses count for the user who sent them, whoever they name
+      const response = <ResponseType>{
+        ...args.response,
+        submitter: user.name,
+      }
+
+      const question = session.quiz.questionAt(args.index)!
+      let points: number = 0
+
+      try {
+        points = question.addResponse(response)
+      } catch (error) {
+        debug(`failed to add response to ${session.id} question ${args.index}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.QuestionResponse,
+          session: session.id,
+          errors: [{ field: 'response', value: null }],
+        })
+        return
+      }
+
+      debug(
+        `successfully added response to ${session.id} question ${args.index}`
+      )
+      this.saveSession(session)
+
+      const firstCorrect = question.firstCorrect ?? ''
+      const statistics = question.statistics
+
+      // Send statistics to owner
+      this.emit(session.owner, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.QuestionResponseAdded,
+        session: session.id,
+        data: {
+          index: args.index,
+          user: user.name,
+          response: responseToString(question.canonicalResponse(response)),
+          points,
+          firstCorrect,
+          frequency: question.frequencyOf(response),
+          relativeFrequency: question.relativeFrequencyOf(response),
+          statistics,
+        },
+      })
+
+      // Share poll results with users if the owner chose to
+      if (
+        question.body.type === QuestionFormat.PollFormat &&
+        question.body.broadcast &&
+        statistics?.type === QuestionFormat.PollFormat
+      ) {
+        this.emitExcept(session.id, session.owner, {
+          status: ResponseStatus.Success,
+          event: SessionEvent.PollUpdated,
+          session: session.id,
+          data: {
+            index: args.index,
+            statistics,
+          },
+        })
+      }
+
+      // Send grade to user
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.QuestionResponse,
+        session: session.id,
+        data: {
+          index: args.index,
+          firstCorrect: firstCorrect === user.name,
+          points,
+        },
+      })
+    }
+  }
+
+  /**
+   * Ends a Session
+   * @param socket Client socket that owns the Session
+   */
+  endSession(socket: Socket): SessionEventHandler<EndSession> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to endSession')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.EndSession,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to end`
+        )
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.EndSession,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
+        })
+        return
+      }
+
+      if (session.hasEnded) {
+        debug(`session ${args.session} already ended`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.EndSession,
+          session: session.id,
+          errors: null,
+        })
+        return
+      }
+
+      debug(`session ${session.id} ending`)
+      session.end()
+      this.saveSession(session)
+
+      // Notify owner of success
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.EndSession,
+        session: session.id,
+        data: null,
+      })
+
+      // Broadcast to all users Session has ended
+      this.emitExcept(session.id, session.owner, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.SessionEnded,
+        session: session.id,
+        data: null,
+      })
+
+      // Send results while users are still in the room
+      this.emitResults(session)
+
+      // Remove all except owner from Session (so they can request data until they disconnect)
+      this.io.except(session.owner).socketsLeave(session.id)
+    }
+  }
+
+  /**
+   * Sends the owner the Session scores as CSV. Available until the
+   * owner disconnects, even after the Session has ended.
+   * @param socket Client socket that owns the Session
+   */
+  exportResults(socket: Socket): SessionEventHandler<ExportResults> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to exportResults')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ExportResults,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to export`
+        )
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ExportResults,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
+        })
+        return
+      }
+
+      debug(`exporting results of session ${session.id}`)
+
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.ExportResults,
+        session: session.id,
+        data: {
+          csv: resultsToCsv(session),
+        },
+      })
+    }
+  }
+
+  /**
+   * Replaces the questions in a Session that has not started with
+   * the questions from a quiz document. Nothing is loaded unless every
+   * question is valid.
+   * @param socket Client socket that owns the Session
+   */
+  importQuiz(socket: Socket): SessionEventHandler<ImportQuiz> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to importQuiz')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportQuiz,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to import into`
+        )
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportQuiz,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
+        })
+        return
+      }
+
+      if (session.isStarted || session.hasEnded) {
+        debug(`session ${session.id} already started, cannot import`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportQuiz,
+          session: session.id,
+          errors: null,
+        })
+        return
+      }
+
+      const result = fromQuizDocument(args.quiz)
+      if (result.type === Result.Failure) {
+        debug('quiz document has invalid format')
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportQuiz,
+          session: session.id,
+          errors: result.errors,
+        })
+        return
+      }
+
+      debug(`importing quiz into session ${session.id}`)
+      const { data: quiz } = result
+      this.replaceQuiz(session, quiz)
+
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.ImportQuiz,
+        session: session.id,
+        data: {
+          questions: quiz.questions.size,
+        },
+      })
+    }
+  }
+
+  /**
+   * Replaces the questions in a Session that has not started with
+   * questions in Moodle GIFT format. Nothing is loaded unless every
+   * question is valid.
+   * @param socket Client socket that owns the Session
+   */
+  importGift(socket: Socket): SessionEventHandler<ImportGift> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to importGift')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportGift,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to import into`
+        )
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.NextQuestion,
+          event: SessionEvent.ImportGift,
           session: session == null ? null : session.id,
           errors: [
             { field: 'session', value: session == null ? null : session.id },
@@ -693,69 +1701,79 @@ export class SessionController {
         return
       }
 
-      if (!session.isStarted) {
-        debug(`session ${session.id} is not started, not sending next question`)
+      if (session.isStarted || session.hasEnded) {
+        debug(`session ${session.id} already started, cannot import`)
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.NextQuestion,
+          event: SessionEvent.ImportGift,
           session: session.id,
           errors: null,
         })
         return
       }
 
-      const nextQuestion = session.quiz.advanceToNextQuestion()
-      if (nextQuestion == null) {
-        debug(`session ${session.id} - quiz has no more questions`)
+      if (typeof args.text !== 'string') {
+        debug('gift text was missing')
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.NextQuestion,
+          event: SessionEvent.ImportGift,
           session: session.id,
-          errors: [
-            { field: 'numQuestions', value: session.quiz.numQuestions },
-            {
-              field: 'currentQuestion',
-              value: session.quiz.currentQuestionIndex,
-            },
-          ],
+          errors: [{ field: 'text', value: null }],
         })
         return
       }
 
-      debug(`session ${session.id} sending next question`)
+      const parsed = parseGift(
+        args.text,
+        args.timeLimit ?? Question.minTimeLimit
+      )
+      const result =
+        parsed.type === Result.Failure
+          ? parsed
+          : fromQuizDocument({
+              version: quizDocumentVersion,
+              title: args.title ?? '',
+              questions: parsed.data,
+            })
+      if (result.type === Result.Failure) {
+        debug('gift text has invalid format')
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.ImportGift,
+          session: session.id,
+          errors: result.errors,
+        })
+        return
+      }
 
-      const index = session.quiz.currentQuestionIndex
-      const question = nextQuestion.data
+      debug(`importing gift questions into session ${session.id}`)
+      const { data: quiz } = result
+      this.replaceQuiz(session, quiz)
 
-      // Notify session owner of success
       callback({
         status: ResponseStatus.Success,
-        event: SessionEvent.NextQuestion,
-        session: session.id,
-        data: { index, question },
-      })
-
-      // Broadcast the next question to users
-      this.emitExcept(session.id, session.owner, {
-        status: ResponseStatus.Success,
-        event: SessionEvent.NextQuestion,
+        event: SessionEvent.ImportGift,
         session: session.id,
-        data: { index, question },
+        data: {
+          questions: quiz.questions.size,
+        },
       })
     }
   }
 
   /**
-   * Checks and adds a user's response to a Quiz Question
-   * @param socket Client socket submitting response
+   * Replaces the questions in a Session that has not started with
+   * the items in an IMS QTI 2.1 package. Nothing is loaded unless
+   * every item is valid.
+   * @param socket Client socket that owns the Session
    */
-  addQuestionResponse(socket: Socket): SessionEventHandler<QuestionResponse> {
+  importQti(socket: Socket): SessionEventHandler<ImportQti> {
     return (args, callback) => {
       if (args == null || args instanceof Function) {
-        debug('no args passed to addQuestionResponse')
+        debug('no args passed to importQti')
         args?.({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
+          event: SessionEvent.ImportQti,
           session: null,
           errors: null,
         })
@@ -767,135 +1785,134 @@ export class SessionController {
       }
 
       const session = this.sessions.get(args.session ?? '')
-      if (session == null) {
-        debug(`could not find session ${args.session} to respond to`)
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to import into`
+        )
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
-          session: args.session == null ? null : args.session,
-          errors: [{ field: 'session', value: null }],
+          event: SessionEvent.ImportQti,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
         })
         return
       }
 
-      const user = session.findUserByName(args.name ?? '')
-      if (user == null || user.id !== socket.id) {
-        debug(`could not add response by unknown user`)
+      if (session.isStarted || session.hasEnded) {
+        debug(`session ${session.id} already started, cannot import`)
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
+          event: SessionEvent.ImportQti,
           session: session.id,
-          errors: [{ field: 'name', value: args.name ?? null }],
+          errors: null,
         })
         return
       }
 
-      if (session.quiz.currentQuestion == null) {
-        debug(
-          `could not respond to session ${session.id} - not started (question null)`
-        )
+      if (!Array.isArray(args.files)) {
+        debug('qti files were missing')
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
+          event: SessionEvent.ImportQti,
           session: session.id,
-          errors: [{ field: 'currentQuestionIndex', value: null }],
+          errors: [{ field: 'files', value: null }],
         })
         return
       }
 
-      if (
-        args.index == null ||
-        args.index !== session.quiz.currentQuestionIndex
-      ) {
-        debug(
-          `could not respond to session ${session.id} - args.index (${args.index}) out of range`
-        )
+      const parsed = fromQtiPackage(args.files)
+      const result =
+        parsed.type === Result.Failure ? parsed : fromQuizDocument(parsed.data)
+      if (result.type === Result.Failure) {
+        debug('qti package has invalid format')
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
+          event: SessionEvent.ImportQti,
           session: session.id,
-          errors: [
-            { field: 'index', value: args.index == null ? null : args.index },
-          ],
+          errors: result.errors,
         })
         return
       }
 
-      if (!validateResponse(args.response)) {
-        debug(`could not respond to session ${session.id} - args.response null`)
-        callback({
+      debug(`importing qti items into session ${session.id}`)
+      const { data: quiz } = result
+      this.replaceQuiz(session, quiz)
+
+      callback({
+        status: ResponseStatus.Success,
+        event: SessionEvent.ImportQti,
+        session: session.id,
+        data: {
+          questions: quiz.questions.size,
+        },
+      })
+    }
+  }
+
+  /**
+   * Sends the owner the Session questions as a quiz document that
+   * can be imported into another Session
+   * @param socket Client socket that owns the Session
+   */
+  exportQuiz(socket: Socket): SessionEventHandler<ExportQuiz> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to exportQuiz')
+        args?.({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
-          session: session.id,
-          errors: [{ field: 'response', value: null }],
+          event: SessionEvent.ExportQuiz,
+          session: null,
+          errors: null,
         })
         return
       }
-      const response = <ResponseType>args.response
-
-      const question = session.quiz.questionAt(args.index)!
-      let points: number = 0
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
 
-      try {
-        points = question.addResponse(response)
-      } catch (error) {
-        debug(`failed to add response to ${session.id} question ${args.index}`)
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null || session.owner !== socket.id) {
+        debug(
+          `could not find session ${args.session} with owner ${socket.id} to export`
+        )
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.QuestionResponse,
-          session: session.id,
-          errors: [{ field: 'response', value: null }],
+          event: SessionEvent.ExportQuiz,
+          session: session == null ? null : session.id,
+          errors: [
+            { field: 'session', value: session == null ? null : session.id },
+          ],
         })
         return
       }
 
-      debug(
-        `successfully added response to ${session.id} question ${args.index}`
-      )
-
-      const firstCorrect = question.firstCorrect ?? ''
-
-      // Send statistics to owner
-      this.emit(session.owner, {
-        status: ResponseStatus.Success,
-        event: SessionEvent.QuestionResponseAdded,
-        session: session.id,
-        data: {
-          index: args.index,
-          user: user.name,
-          response: responseToString(response),
-          points,
-          firstCorrect,
-          frequency: question.frequencyOf(response),
-          relativeFrequency: question.relativeFrequencyOf(response),
-        },
-      })
+      debug(`exporting quiz of session ${session.id}`)
 
-      // Send grade to user
       callback({
         status: ResponseStatus.Success,
-        event: SessionEvent.QuestionResponse,
+        event: SessionEvent.ExportQuiz,
         session: session.id,
         data: {
-          index: args.index,
-          firstCorrect: firstCorrect === user.name,
-          points,
+          quiz: toQuizDocument(session.quiz),
         },
       })
     }
   }
 
   /**
-   * Ends a Session
+   * Sends the owner the Session questions as an IMS QTI 2.1 package
    * @param socket Client socket that owns the Session
    */
-  endSession(socket: Socket): SessionEventHandler<EndSession> {
+  exportQti(socket: Socket): SessionEventHandler<ExportQti> {
     return (args, callback) => {
       if (args == null || args instanceof Function) {
-        debug('no args passed to endSession')
+        debug('no args passed to exportQti')
         args?.({
           status: ResponseStatus.Failure,
-          event: SessionEvent.EndSession,
+          event: SessionEvent.ExportQti,
           session: null,
           errors: null,
         })
@@ -909,11 +1926,11 @@ export class SessionController {
       const session = this.sessions.get(args.session ?? '')
       if (session == null || session.owner !== socket.id) {
         debug(
-          `could not find session ${args.session} with owner ${socket.id} to end`
+          `could not find session ${args.session} with owner ${socket.id} to export`
         )
         callback({
           status: ResponseStatus.Failure,
-          event: SessionEvent.EndSession,
+          event: SessionEvent.ExportQti,
           session: session == null ? null : session.id,
           errors: [
             { field: 'session', value: session == null ? null : session.id },
@@ -922,38 +1939,16 @@ export class SessionController {
         return
       }
 
-      if (session.hasEnded) {
-        debug(`session ${args.session} already ended`)
-        callback({
-          status: ResponseStatus.Failure,
-          event: SessionEvent.EndSession,
-          session: session.id,
-          errors: null,
-        })
-        return
-      }
-
-      debug(`session ${session.id} ending`)
-      session.end()
+      debug(`exporting qti package of session ${session.id}`)
 
-      // Notify owner of success
       callback({
         status: ResponseStatus.Success,
-        event: SessionEvent.EndSession,
-        session: session.id,
-        data: null,
-      })
-
-      // Broadcast to all users Session has ended
-      this.emitExcept(session.id, session.owner, {
-        status: ResponseStatus.Success,
-        event: SessionEvent.SessionEnded,
+        event: SessionEvent.ExportQti,
         session: session.id,
-        data: null,
+        data: {
+          files: toQtiPackage(session.quiz),
+        },
       })
-
-      // Remove all except owner from Session (so they can request data until they disconnect)
-      this.io.except(session.owner).socketsLeave(session.id)
     }
   }
 
@@ -1026,6 +2021,7 @@ export class SessionController {
 
       // End the question
       currentQuestion.end()
+      this.saveSession(session)
 
       // Notify owner of success
       callback({
@@ -1035,13 +2031,77 @@ export class SessionController {
         data: null,
       })
 
-      // Broadcast to users that question ended
-      this.emitExcept(session.id, session.owner, {
+      this.emitQuestionEnded(session, currentQuestion)
+    }
+  }
+
+  /**
+   * Sends the current scores to a client - all scores for the owner,
+   * or the top scores and their own score for users
+   * @param socket Client socket in the Session
+   */
+  getLeaderboard(socket: Socket): SessionEventHandler<GetLeaderboard> {
+    return (args, callback) => {
+      if (args == null || args instanceof Function) {
+        debug('no args passed to getLeaderboard')
+        args?.({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.GetLeaderboard,
+          session: null,
+          errors: null,
+        })
+        return
+      }
+      if (callback == null || !(callback instanceof Function)) {
+        debug('callback was null or not a function')
+        return
+      }
+
+      const session = this.sessions.get(args.session ?? '')
+      if (session == null) {
+        debug(`could not find session ${args.session} to get leaderboard`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.GetLeaderboard,
+          session: args.session == null ? null : args.session,
+          errors: [{ field: 'session', value: null }],
+        })
+        return
+      }
+
+      const scoreboard = session.scoreboard
+      if (session.owner === socket.id) {
+        callback({
+          status: ResponseStatus.Success,
+          event: SessionEvent.GetLeaderboard,
+          session: session.id,
+          data: {
+            leaderboard: scoreboard.entries.toArray(),
+            user: null,
+          },
+        })
+        return
+      }
+
+      const user = session.findUserById(socket.id)
+      if (user == null) {
+        debug(`client ${socket.id} is not in session ${session.id}`)
+        callback({
+          status: ResponseStatus.Failure,
+          event: SessionEvent.GetLeaderboard,
+          session: session.id,
+          errors: [{ field: 'session', value: session.id }],
+        })
+        return
+      }
+
+      callback({
         status: ResponseStatus.Success,
-        event: SessionEvent.QuestionEnded,
+        event: SessionEvent.GetLeaderboard,
         session: session.id,
         data: {
-          question: currentIndex,
+          leaderboard: scoreboard.top().toArray(),
+          user: scoreboard.entryFor(user.name) ?? null,
         },
       })
     }
@@ -1169,6 +2229,7 @@ export class SessionController {
         `received feedback for question ${question.index} in session ${session.id}`,
         feedback
       )
+      this.saveSession(session)
 
       // Tell session owner that feedback added
       this.emit(session.owner, {
@@ -1302,8 +2363,8 @@ export class SessionController {
   }
 
   /**
-   * Cleans up resources owned by the client, removing users from Session
-   * if an owner disconnects
+   * Cleans up resources owned by the client. If the client owns a Session,
+   * the Session ends unless the owner resumes it within the grace period.
    * @param socket Client socket that's disconnecting
    */
   handleDisconnect(socket: Socket): SocketEventHandler<string> {
@@ -1315,25 +2376,24 @@ export class SessionController {
       if (session != null) {
         debug(`disconnecting client ${socket.id} owns session ${session.id}`)
 
-        // Allow session cleanup by invoking end
-        session.end()
-        this.removeSession(session)
+        // An ended session has nothing left to resume
+        if (session.hasEnded) {
+          this.closeSession(session)
+          return
+        }
+
+        // Keep the session alive so the owner can resume it
+        this.startOwnerGracePeriod(session)
 
-        // Broadcast that session has ended (because the owner left),
-        // and force disconnect all users in the session's room
-        this.emit(session.id, {
+        // Notify users that the owner is gone
+        this.emitExcept(session.id, socket.id, {
           status: ResponseStatus.Success,
-          event: SessionEvent.SessionEnded,
+          event: SessionEvent.OwnerDisconnected,
           session: session.id,
-          data: null,
+          data: {
+            gracePeriod: this.ownerGracePeriod,
+          },
         })
-        this.io.to(session.id).socketsLeave(session.id)
-
-        this.removeSession(session)
-        debug(
-          `session ${session.id} removed, sessions remaining:`,
-          this.sessions.count()
-        )
       } else {
         debug(`client ${socket.id} does not own a session`)
         socket.rooms.forEach((room) => {
@@ -1343,8 +2403,9 @@ export class SessionController {
             if (user != null) {
               debug(`client ${socket.id} leaving room ${room}`)
 
-              // Remove the user from the session instance
-              session.removeUser(user.name)
+              // Keep the user in the session instance so they can rejoin
+              session.disconnectUser(user.name)
+              this.saveSession(session)
 
               // Notify room that a user disconnected
               this.emit(room, {
@@ -1362,6 +2423,57 @@ export class SessionController {
     }
   }
 
+  /**
+   * Sends the owner the full results of an ended Session, and sends
+   * each connected user their own results
+   * @param session the ended Session
+   */
+  private emitResults(session: Session) {
+    this.emit(session.owner, {
+      status: ResponseStatus.Success,
+      event: SessionEvent.SessionResults,
+      session: session.id,
+      data: sessionResults(session),
+    })
+
+    session.participants.forEach((participant) => {
+      const user = session.findUserById(participant.id)
+      const results = userResults(session, participant.name)
+      if (user == null || results == null) {
+        return
+      }
+      this.emit(user.id, {
+        status: ResponseStatus.Success,
+        event: SessionEvent.UserResults,
+        session: session.id,
+        data: results,
+      })
+    })
+  }
+
+  /**
+   * Gets the state of a Session's current Question for a user that was not
+   * connected when it was pushed
+   * @param session the Session
+   * @param user the User to send the Question to
+   * @returns the current Question, or null if there is no Question accepting responses
+   */
+  private currentQuestionFor(
+    session: Session,
+    user: User
+  ): CurrentQuestion | null {
+    const question = session.quiz.currentQuestion
+    if (question == null || !question.isStarted || question.hasEnded) {
+      return null
+    }
+    return {
+      index: session.quiz.currentQuestionIndex,
+      question: question.viewFor(user.name),
+      timeRemaining: question.timeRemaining,
+      responded: question.responseFrom(user.name) != null,
+    }
+  }
+
   /**
    * Emits a response to a target session, socket, or room.
    * @param target either an ID string or Socket to emit to
@@ -1,7 +1,7 @@
 import SessionEvent from 'api/event'
 import { createServer, Server as HttpServer } from 'http'
 import { Server } from 'socket.io'
-import { SessionController } from './controller'
+import { SessionController, SessionControllerOptions } from './controller'
 
 const debug = require('debug')('app:server')
 
@@ -9,48 +9,69 @@ const debug = require('debug')('app:server')
  * Sets up the socket.io server event handlers
  */
 // prettier-ignore
-function configure(io: Server) {
-  const sessionController = new SessionController(io)
+function configure(io: Server, options: SessionControllerOptions): SessionController {
+  const sessionController = new SessionController(io, options)
   io.on('connection', (socket) => {
     debug('received socket connection')
 
     socket.on(SessionEvent.CreateNewSession, sessionController.createSession(socket))
 
+    socket.on(SessionEvent.ResumeSession, sessionController.resumeSession(socket))
+
     socket.on(SessionEvent.JoinSession, sessionController.addUserToSession(socket))
 
+    socket.on(SessionEvent.RejoinSession, sessionController.rejoinSession(socket))
+
     socket.on(SessionEvent.AddQuestion, sessionController.addQuestionToSession(socket))
 
     socket.on(SessionEvent.EditQuestion, sessionController.editQuestionInSession(socket))
 
     socket.on(SessionEvent.RemoveQuestion, sessionController.removeQuestionFromSession(socket))
 
+    socket.on(SessionEvent.SetQuestionOrder, sessionController.setQuestionOrder(socket))
+
     socket.on(SessionEvent.SessionKick, sessionController.removeUserFromSession(socket))
 
     socket.on(SessionEvent.StartSession, sessionController.startSession(socket))
 
     socket.on(SessionEvent.EndSession, sessionController.endSession(socket))
 
+    socket.on(SessionEvent.ExportResults, sessionController.exportResults(socket))
+    socket.on(SessionEvent.ImportQuiz, sessionController.importQuiz(socket))
+    socket.on(SessionEvent.ImportGift, sessionController.importGift(socket))
+    socket.on(SessionEvent.ImportQti, sessionController.importQti(socket))
+    socket.on(SessionEvent.ExportQti, sessionController.exportQti(socket))
+    socket.on(SessionEvent.ExportQuiz, sessionController.exportQuiz(socket))
+
     socket.on(SessionEvent.NextQuestion, sessionController.pushNextQuestion(socket))
 
     socket.on(SessionEvent.QuestionResponse, sessionController.addQuestionResponse(socket))
 
     socket.on(SessionEvent.EndQuestion, sessionController.endCurrentQuestion(socket))
 
+    socket.on(SessionEvent.GetLeaderboard, sessionController.getLeaderboard(socket))
+
     socket.on(SessionEvent.SubmitFeedback, sessionController.submitQuestionFeedback(socket))
 
     socket.on(SessionEvent.SendHint, sessionController.sendQuestionHint(socket))
 
     socket.on('disconnecting', sessionController.handleDisconnect(socket))
   })
+  return sessionController
 }
 
 /**
- * Creates and configures a socket.io server
+ * Creates and configures a socket.io server, restoring any Sessions in the
+ * configured store
+ * @param options configuration for the server's SessionController
  * @returns http Server object that has been configured with an associated socket.io Server
  */
-export function createSocketServer(): HttpServer {
+export function createSocketServer(
+  options: SessionControllerOptions = {}
+): HttpServer {
   const server = createServer()
   const io = new Server(server)
-  configure(io)
+  const sessionController = configure(io, options)
+  server.on('close', () => sessionController.close())
   return server
 }
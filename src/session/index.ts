@@ -1 +1,3 @@
+export * from './results'
+export * from './scoreboard'
 export * from './session'
@@ -0,0 +1,160 @@
+import { ApiError } from 'api/error'
+import { QuestionPool, QuizDocument } from 'api/quiz'
+import { Result, ResultType } from 'result'
+import { fromSubmission, nestError } from '../question'
+import { Quiz } from '../quiz'
+
+/**
+ * The QuizDocument version written by this server
+ */
+export const quizDocumentVersion: number = 1
+
+/**
+ * Parses and validates every Question in a QuizDocument. Question errors
+ * are reported with the index of the Question in the document.
+ * @param document the document submitted by a client
+ * @returns the Quiz if every Question is valid, or all errors
+ */
+export function fromQuizDocument(
+  document?: Partial<QuizDocument>
+): ResultType<Quiz, ApiError> {
+  if (document == null) {
+    return {
+      type: Result.Failure,
+      errors: [{ field: 'quiz', value: null }],
+    }
+  }
+
+  let errors: ApiError[] = []
+  if (document.version !== quizDocumentVersion) {
+    errors.push({
+      field: 'version',
+      value: document.version == null ? null : document.version,
+    })
+  }
+
+  if (document.title != null && typeof document.title !== 'string') {
+    errors.push({ field: 'title', value: null })
+  }
+
+  if (!Array.isArray(document.questions) || document.questions.length === 0) {
+    errors.push({
+      field: 'questions',
+      value: Array.isArray(document.questions) ? 0 : null,
+    })
+    return {
+      type: Result.Failure,
+      errors,
+    }
+  }
+
+  if (document.shuffle != null && typeof document.shuffle !== 'boolean') {
+    errors.push({ field: 'shuffle', value: null })
+  }
+  errors = errors.concat(
+    validatePools(document.pools, document.questions.length)
+  )
+
+  const quiz = new Quiz(document.title ?? '')
+  document.questions.forEach((submission, index) => {
+    const result = fromSubmission(submission ?? {})
+    if (result.type === Result.Failure) {
+      errors = errors.concat(
+        result.errors.map((error) => nestError('questions', index, error))
+      )
+    } else {
+      quiz.addQuestion(result.data)
+    }
+  })
+
+  quiz.setShuffle(document.shuffle ?? false)
+  quiz.setPools(document.pools ?? [])
+
+  return errors.length === 0
+    ? {
+        type: Result.Success,
+        data: quiz,
+      }
+    : {
+        type: Result.Failure,
+        errors,
+      }
+}
+
+/**
+ * Converts the Questions in a Quiz into a QuizDocument
+ * @param quiz the Quiz
+ * @returns the document
+ */
+export function toQuizDocument(quiz: Quiz): QuizDocument {
+  return {
+    version: quizDocumentVersion,
+    title: quiz.title,
+    questions: quiz.allQuestions
+      .map((question) => ({
+        text: question.text,
+        body: question.body,
+        timeLimit: question.timeLimit,
+        ...(question.explanation != null && {
+          explanation: question.explanation,
+        }),
+      }))
+      .toArray(),
+    ...(quiz.shuffle && { shuffle: true }),
+    ...(quiz.pools.size > 0 && { pools: quiz.pools.toArray() }),
+  }
+}
+
+/**
+ * Validates the pools of a QuizDocument or Quiz. Each question can be in
+ * at most one pool, and each pool must pick at least one of its questions.
+ * @param pools the submitted pools
+ * @param numQuestions the number of questions in the document or Quiz
+ * @returns errors with the index of the pool they are in
+ */
+export function validatePools(
+  pools: Partial<QuestionPool>[] | undefined,
+  numQuestions: number
+): ApiError[] {
+  if (pools == null) {
+    return []
+  }
+  if (!Array.isArray(pools)) {
+    return [{ field: 'pools', value: null }]
+  }
+
+  const errors: ApiError[] = []
+  const pooled = new Set<number>()
+  pools.forEach((pool, index) => {
+    if (!Array.isArray(pool?.questions) || pool.questions.length === 0) {
+      errors.push(
+        nestError('pools', index, { field: 'questions', value: null })
+      )
+    } else {
+      pool.questions.forEach((question) => {
+        if (
+          !Number.isInteger(question) ||
+          question < 0 ||
+          question >= numQuestions ||
+          pooled.has(question)
+        ) {
+          errors.push(
+            nestError('pools', index, { field: 'questions', value: question })
+          )
+        }
+        pooled.add(question)
+      })
+    }
+
+    const size = Array.isArray(pool?.questions) ? pool.questions.length : 0
+    if (!Number.isInteger(pool?.pick) || pool.pick! < 1 || pool.pick! > size) {
+      errors.push(
+        nestError('pools', index, {
+          field: 'pick',
+          value: pool?.pick == null ? null : pool.pick,
+        })
+      )
+    }
+  })
+  return errors
+}
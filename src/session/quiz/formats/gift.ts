@@ -0,0 +1,292 @@
+import { ApiError } from 'api/error'
+import {
+  QuestionFormat,
+  QuestionSubmission,
+  QuestionSubmissionBodyType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import { fromSubmission, nestError } from '../question'
+
+/**
+ * Points for a GIFT answer with a weight of 100%
+ */
+const fullCredit = 100
+
+/**
+ * A question's source text and the line it starts on
+ */
+interface GiftItem {
+  line: number
+  source: string
+}
+
+/**
+ * A single answer within a GIFT answer block
+ */
+interface GiftAnswer {
+  correct: boolean
+  weight: number | null
+  text: string
+}
+
+/**
+ * Parses questions in Moodle GIFT format. Supports multiple choice,
+ * short answer, and true/false questions. Errors are reported with the
+ * line each failing question starts on.
+ * @param text the GIFT file contents
+ * @param timeLimit the time limit to give every question
+ * @returns the questions, or all errors
+ */
+export function parseGift(
+  text: string,
+  timeLimit: Seconds
+): ResultType<QuestionSubmission[], ApiError> {
+  const questions: QuestionSubmission[] = []
+  let errors: ApiError[] = []
+
+  splitItems(text).forEach(({ line, source }) => {
+    const parsed = parseItem(source)
+    if (parsed.type === Result.Failure) {
+      errors = errors.concat(
+        parsed.errors.map((error) => nestError('line', line, error))
+      )
+      return
+    }
+
+    const { text, body } = parsed.data
+    const result = fromSubmission({ text, body, timeLimit })
+    if (result.type === Result.Failure) {
+      errors = errors.concat(
+        result.errors.map((error) => nestError('line', line, error))
+      )
+    } else {
+      questions.push({ text, body, timeLimit })
+    }
+  })
+
+  if (questions.length === 0 && errors.length === 0) {
+    errors.push({ field: 'questions', value: 0 })
+  }
+
+  return errors.length === 0
+    ? {
+        type: Result.Success,
+        data: questions,
+      }
+    : {
+        type: Result.Failure,
+        errors,
+      }
+}
+
+/**
+ * Splits GIFT text into questions, which are separated by blank lines.
+ * Comments and category commands are skipped.
+ */
+function splitItems(text: string): GiftItem[] {
+  const items: GiftItem[] = []
+  let current: GiftItem | null = null
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (trimmed.startsWith('//') || trimmed.startsWith('$CATEGORY:')) {
+      return
+    }
+    if (trimmed.length === 0) {
+      current = null
+      return
+    }
+    if (current == null) {
+      current = { line: index + 1, source: line }
+      items.push(current)
+    } else {
+      current.source += '\n' + line
+    }
+  })
+  return items
+}
+
+/**
+ * Parses the text and answer block of one question
+ */
+function parseItem(
+  source: string
+): ResultType<{ text: string; body: QuestionSubmissionBodyType }, ApiError> {
+  let rest = source.trim()
+  let title = ''
+  if (rest.startsWith('::')) {
+    const end = indexOfUnescaped(rest, '::', 2)
+    if (end === -1) {
+      return failure('title', null)
+    }
+    title = unescape(rest.slice(2, end).trim())
+    rest = rest.slice(end + 2)
+  }
+
+  const open = indexOfUnescaped(rest, '{')
+  const close = open === -1 ? -1 : indexOfUnescaped(rest, '}', open + 1)
+  if (open === -1 || close === -1) {
+    return failure('answers', null)
+  }
+  const after = rest.slice(close + 1).trim()
+  if (indexOfUnescaped(after, '{') !== -1) {
+    return failure('answers', after)
+  }
+
+  const before = rest
+    .slice(0, open)
+    .replace(/^\s*\[(html|moodle|plain|markdown)\]/, '')
+    .trim()
+  let text = unescape(before)
+  if (after.length > 0) {
+    text += ' _____ ' + unescape(after)
+  }
+  if (text.length === 0) {
+    text = title
+  }
+
+  const block = rest.slice(open + 1, close).trim()
+  const head = stripFeedback(block).trim().toUpperCase()
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(head)) {
+    return {
+      type: Result.Success,
+      data: {
+        text,
+        body: {
+          type: QuestionFormat.TrueFalseFormat,
+          answer: head.startsWith('T'),
+          points: fullCredit,
+        },
+      },
+    }
+  }
+
+  // Numeric, essay, and matching questions have no equivalent format
+  if (
+    block.length === 0 ||
+    block.startsWith('#') ||
+    indexOfUnescaped(block, '->') !== -1
+  ) {
+    return failure('type', block)
+  }
+
+  const answers = splitAnswers(block)
+  if (answers == null) {
+    return failure('answers', block)
+  }
+
+  if (answers.some((answer) => !answer.correct)) {
+    const correct = answers.filter((answer) => answer.correct)
+    if (correct.length !== 1) {
+      return failure('answer', correct.length)
+    }
+    return {
+      type: Result.Success,
+      data: {
+        text,
+        body: {
+          type: QuestionFormat.MultipleChoiceFormat,
+          choices: answers.map((answer) => ({
+            text: answer.text,
+            points: answer.correct ? fullCredit : toPoints(answer.weight ?? 0),
+          })),
+          answer: answers.indexOf(correct[0]!),
+        },
+      },
+    }
+  }
+
+  return {
+    type: Result.Success,
+    data: {
+      text,
+      body: {
+        type: QuestionFormat.FillInFormat,
+        answers: answers.map((answer) => ({
+          text: answer.text,
+          points: toPoints(answer.weight ?? 100),
+        })),
+      },
+    },
+  }
+}
+
+/**
+ * Splits an answer block into answers starting with `=` (correct)
+ * or `~` (incorrect)
+ * @returns the answers, or undefined if there is text before the first
+ */
+function splitAnswers(block: string): GiftAnswer[] | undefined {
+  const starts: number[] = []
+  for (let i = 0; i < block.length; ++i) {
+    if (block[i] === '\\') {
+      ++i
+    } else if (block[i] === '=' || block[i] === '~') {
+      starts.push(i)
+    }
+  }
+  if (starts.length === 0 || block.slice(0, starts[0]).trim().length !== 0) {
+    return undefined
+  }
+
+  return starts.map((start, index) => {
+    let answer = stripFeedback(
+      block.slice(start + 1, starts[index + 1] ?? block.length)
+    ).trim()
+    let weight: number | null = null
+    const match = /^%(-?\d+(?:\.\d+)?)%/.exec(answer)
+    if (match != null) {
+      weight = Number(match[1]!)
+      answer = answer.slice(match[0]!.length)
+    }
+    return {
+      correct: block[start] === '=',
+      weight,
+      text: unescape(answer.trim()),
+    }
+  })
+}
+
+/**
+ * Converts a GIFT percentage weight to points. Penalties are not
+ * supported, so negative weights give no points.
+ */
+function toPoints(weight: number): number {
+  return Math.max(0, Math.round((weight / 100) * fullCredit))
+}
+
+/**
+ * Removes answer feedback, which starts with `#`
+ */
+function stripFeedback(answer: string): string {
+  const index = indexOfUnescaped(answer, '#')
+  return index === -1 ? answer : answer.slice(0, index)
+}
+
+/**
+ * Finds the first occurrence of a token not preceded by a backslash
+ */
+function indexOfUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; ++i) {
+    if (text[i] === '\\') {
+      ++i
+    } else if (text.startsWith(token, i)) {
+      return i
+    }
+  }
+  return -1
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\([\s\S])/g, '$1')
+}
+
+function failure<T>(
+  field: string,
+  value: string | number | null
+): ResultType<T, ApiError> {
+  return {
+    type: Result.Failure,
+    errors: [{ field, value }],
+  }
+}
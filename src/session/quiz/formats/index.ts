@@ -0,0 +1,3 @@
+export * from './document'
+export * from './gift'
+export * from './qti'
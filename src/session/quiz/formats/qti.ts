@@ -0,0 +1,463 @@
+import { ApiError } from 'api/error'
+import {
+  FillIn,
+  MultipleChoice,
+  MultipleChoiceSubmission,
+  QuestionFormat,
+  QuestionSubmission,
+} from 'api/question'
+import { QtiFile, QuizDocument } from 'api/quiz'
+import { posix } from 'path'
+import { Result, ResultType } from 'result'
+import { nestError, Question } from '../question'
+import { Quiz } from '../quiz'
+import { quizDocumentVersion } from './document'
+import {
+  childElements,
+  escapeXml,
+  findElements,
+  parseXml,
+  textContent,
+  XmlElement,
+} from './xml'
+
+const qtiNamespace = 'http://www.imsglobal.org/xsd/imsqti_v2p1'
+const manifestNamespace = 'http://www.imsglobal.org/xsd/imscp_v1p1'
+const mapResponseTemplate =
+  'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response'
+
+/**
+ * Points given to a correct response when an item has no mapping
+ */
+const fullCredit = 100
+
+/**
+ * Creates a QTI 2.1 content package containing a Quiz's Questions.
+ * Each Question is an assessment item scored by mapping responses to the
+ * points stored for each choice or answer. Questions in formats that have
+ * no equivalent assessment item are left out.
+ * @param quiz the Quiz
+ * @returns the files in the package, including the manifest
+ */
+export function toQtiPackage(quiz: Quiz): QtiFile[] {
+  const items = quiz.allQuestions
+    .flatMap((question) => {
+      const parts = itemParts(question)
+      return parts == null ? [] : [{ question, parts }]
+    })
+    .map(({ question, parts }, index) => ({
+      identifier: `item-${index + 1}`,
+      path: `items/item-${index + 1}.xml`,
+      question,
+      parts,
+    }))
+    .toArray()
+
+  const test = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest xmlns="${qtiNamespace}" identifier="assessment" title="${escapeXml(
+      quiz.title
+    )}">`,
+    '  <testPart identifier="part-1" navigationMode="linear" submissionMode="individual">',
+    '    <assessmentSection identifier="section-1" title="Section 1" visible="false">',
+    ...items.map(({ identifier, path, question }) =>
+      [
+        `      <assessmentItemRef identifier="${identifier}" href="${path}">`,
+        `        <timeLimits maxTime="${question.timeLimit}"/>`,
+        '      </assessmentItemRef>',
+      ].join('\n')
+    ),
+    '    </assessmentSection>',
+    '  </testPart>',
+    '</assessmentTest>',
+  ]
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${manifestNamespace}" identifier="manifest">`,
+    '  <metadata>',
+    '    <schema>QTIv2.1 Package</schema>',
+    '    <schemaversion>1.0.0</schemaversion>',
+    '  </metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    '    <resource identifier="assessment" type="imsqti_test_xmlv2p1" href="assessment.xml">',
+    '      <file href="assessment.xml"/>',
+    ...items.map(
+      ({ identifier }) => `      <dependency identifierref="${identifier}"/>`
+    ),
+    '    </resource>',
+    ...items.map(({ identifier, path }) =>
+      [
+        `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${path}">`,
+        `      <file href="${path}"/>`,
+        '    </resource>',
+      ].join('\n')
+    ),
+    '  </resources>',
+    '</manifest>',
+  ]
+
+  return [
+    { path: 'imsmanifest.xml', content: manifest.join('\n') },
+    { path: 'assessment.xml', content: test.join('\n') },
+    ...items.map(({ identifier, path, question, parts }) => ({
+      path,
+      content: itemXml(identifier, question.text, parts),
+    })),
+  ]
+}
+
+/**
+ * Reads the Questions from a QTI 2.1 content package. Items are read in
+ * the order of the package's assessment test, or in file order if there
+ * is none. Single choice items are read as multiple choice questions and
+ * text entry items as fill-in questions. Any other item is an error.
+ * @param files the files in the package
+ * @returns a QuizDocument with the items, or errors for each item that
+ * could not be read
+ */
+export function fromQtiPackage(
+  files: QtiFile[]
+): ResultType<QuizDocument, ApiError> {
+  const documents = new Map<string, XmlElement>()
+  const errors: ApiError[] = []
+  files.forEach((file) => {
+    if (
+      file == null ||
+      typeof file.path !== 'string' ||
+      typeof file.content !== 'string'
+    ) {
+      errors.push({ field: 'files', value: null })
+      return
+    }
+    const root = parseXml(file.content)
+    if (root == null) {
+      errors.push({ field: 'files', value: file.path })
+    } else {
+      documents.set(posix.normalize(file.path), root)
+    }
+  })
+  if (errors.length !== 0) {
+    return {
+      type: Result.Failure,
+      errors,
+    }
+  }
+
+  let title = ''
+  let items: { item: XmlElement | undefined; timeLimit: number }[] = []
+  const tests = [...documents].filter(
+    ([, root]) => root.name === 'assessmentTest'
+  )
+  if (tests.length !== 0) {
+    const [path, test] = tests[0]!
+    title = test.attributes.title ?? ''
+    items = findElements(test, 'assessmentItemRef').map((ref) => {
+      const href = posix.join(posix.dirname(path), ref.attributes.href ?? '')
+      const maxTime = childElements(ref, 'timeLimits')[0]?.attributes.maxTime
+      return {
+        item: documents.get(href),
+        timeLimit: maxTime == null ? Question.minTimeLimit : Number(maxTime),
+      }
+    })
+  } else {
+    items = [...documents.values()]
+      .filter((root) => root.name === 'assessmentItem')
+      .map((item) => ({ item, timeLimit: Question.minTimeLimit }))
+  }
+
+  if (items.length === 0) {
+    return {
+      type: Result.Failure,
+      errors: [{ field: 'items', value: 0 }],
+    }
+  }
+
+  const questions: QuestionSubmission[] = []
+  items.forEach(({ item, timeLimit }, index) => {
+    const result: ResultType<QuestionSubmission, ApiError> =
+      item == null || item.name !== 'assessmentItem'
+        ? {
+            type: Result.Failure,
+            errors: [{ field: 'item', value: null }],
+          }
+        : parseItem(item, timeLimit)
+    if (result.type === Result.Failure) {
+      result.errors.forEach((error) =>
+        errors.push(nestError('items', index, error))
+      )
+    } else {
+      questions.push(result.data)
+    }
+  })
+
+  return errors.length === 0
+    ? {
+        type: Result.Success,
+        data: {
+          version: quizDocumentVersion,
+          title,
+          questions,
+        },
+      }
+    : {
+        type: Result.Failure,
+        errors,
+      }
+}
+
+/**
+ * Gets the parts of the assessment item for a Question, if its format
+ * has an equivalent item
+ */
+function itemParts(question: Question): ItemParts | undefined {
+  const { text, body } = question
+  switch (body.type) {
+    case QuestionFormat.MultipleChoiceFormat:
+      return choiceItemParts(text, body)
+    case QuestionFormat.FillInFormat:
+      return textEntryItemParts(text, body)
+    case QuestionFormat.TrueFalseFormat:
+      return choiceItemParts(text, {
+        type: QuestionFormat.MultipleChoiceFormat,
+        choices: [
+          { text: 'True', points: body.answer ? body.points : 0 },
+          { text: 'False', points: body.answer ? 0 : body.points },
+        ],
+        answer: body.answer ? 0 : 1,
+      })
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Creates the assessment item for a Question
+ */
+function itemXml(identifier: string, text: string, parts: ItemParts): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${qtiNamespace}" identifier="${identifier}" title="${escapeXml(
+      text
+    )}" adaptive="false" timeDependent="false">`,
+    ...parts.declaration,
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+    '    <defaultValue>',
+    '      <value>0</value>',
+    '    </defaultValue>',
+    '  </outcomeDeclaration>',
+    '  <itemBody>',
+    ...parts.body,
+    '  </itemBody>',
+    `  <responseProcessing template="${mapResponseTemplate}"/>`,
+    '</assessmentItem>',
+  ].join('\n')
+}
+
+/**
+ * Lines of the response declaration and item body of an assessment item
+ */
+interface ItemParts {
+  declaration: string[]
+  body: string[]
+}
+
+function choiceItemParts(text: string, body: MultipleChoice): ItemParts {
+  return {
+    declaration: [
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+      '    <correctResponse>',
+      `      <value>choice-${body.answer}</value>`,
+      '    </correctResponse>',
+      '    <mapping defaultValue="0">',
+      ...body.choices.map(
+        (choice, index) =>
+          `      <mapEntry mapKey="choice-${index}" mappedValue="${choice.points}"/>`
+      ),
+      '    </mapping>',
+      '  </responseDeclaration>',
+    ],
+    body: [
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${
+        body.shuffle === true
+      }" maxChoices="1">`,
+      `      <prompt>${escapeXml(text)}</prompt>`,
+      ...body.choices.map(
+        (choice, index) =>
+          `      <simpleChoice identifier="choice-${index}">${escapeXml(
+            choice.text
+          )}</simpleChoice>`
+      ),
+      '    </choiceInteraction>',
+    ],
+  }
+}
+
+function textEntryItemParts(text: string, body: FillIn): ItemParts {
+  const best = body.answers.reduce((best, answer) =>
+    answer.points > best.points ? answer : best
+  )
+  return {
+    declaration: [
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+      '    <correctResponse>',
+      `      <value>${escapeXml(best.text)}</value>`,
+      '    </correctResponse>',
+      '    <mapping defaultValue="0">',
+      ...body.answers.map(
+        (answer) =>
+          `      <mapEntry mapKey="${escapeXml(answer.text)}" mappedValue="${
+            answer.points
+          }" caseSensitive="false"/>`
+      ),
+      '    </mapping>',
+      '  </responseDeclaration>',
+    ],
+    body: [
+      `    <p>${escapeXml(text)}</p>`,
+      `    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(
+        ...body.answers.map((answer) => answer.text.length)
+      )}"/></p>`,
+    ],
+  }
+}
+
+/**
+ * A response value and the points it is mapped to
+ */
+interface MapEntry {
+  key: string
+  points: number | undefined
+}
+
+/**
+ * Reads a question submission from a single choice or text entry item
+ */
+function parseItem(
+  item: XmlElement,
+  timeLimit: number
+): ResultType<QuestionSubmission, ApiError> {
+  const body = childElements(item, 'itemBody')[0]
+  const declaration = childElements(item, 'responseDeclaration')[0]
+  if (body == null || declaration == null) {
+    return {
+      type: Result.Failure,
+      errors: [
+        {
+          field: body == null ? 'itemBody' : 'responseDeclaration',
+          value: null,
+        },
+      ],
+    }
+  }
+
+  const correct = findElements(declaration, 'correctResponse').flatMap(
+    (response) =>
+      childElements(response, 'value').map((value) => textContent(value))
+  )
+  const mapping: MapEntry[] = findElements(declaration, 'mapEntry').map(
+    (entry) => ({
+      key: entry.attributes.mapKey ?? '',
+      points: toPoints(entry.attributes.mappedValue),
+    })
+  )
+
+  const interactions = allElements(body).filter((element) =>
+    element.name.endsWith('Interaction')
+  )
+  if (interactions.length !== 1) {
+    return {
+      type: Result.Failure,
+      errors: [{ field: 'interactions', value: interactions.length }],
+    }
+  }
+
+  const interaction = interactions[0]!
+  switch (interaction.name) {
+    case 'choiceInteraction':
+      return {
+        type: Result.Success,
+        data: {
+          text: choicePrompt(body, interaction),
+          body: parseChoiceInteraction(interaction, correct, mapping),
+          timeLimit,
+        },
+      }
+    case 'textEntryInteraction':
+      return {
+        type: Result.Success,
+        data: {
+          text: textContent(body, ['textEntryInteraction']),
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers:
+              mapping.length === 0
+                ? correct.map((text) => ({ text, points: fullCredit }))
+                : mapping.map(({ key, points }) => ({ text: key, points })),
+          },
+          timeLimit,
+        },
+      }
+    default:
+      return {
+        type: Result.Failure,
+        errors: [{ field: 'interaction', value: interaction.name }],
+      }
+  }
+}
+
+/**
+ * Gets the question text of a choice item, which is the interaction's
+ * prompt or otherwise the text around the interaction
+ */
+function choicePrompt(body: XmlElement, interaction: XmlElement): string {
+  const prompt = childElements(interaction, 'prompt')[0]
+  return prompt == null
+    ? textContent(body, ['choiceInteraction'])
+    : textContent(prompt)
+}
+
+function parseChoiceInteraction(
+  interaction: XmlElement,
+  correct: string[],
+  mapping: MapEntry[]
+): MultipleChoiceSubmission {
+  const choices = childElements(interaction, 'simpleChoice')
+  const answer = choices.findIndex(
+    (choice) => choice.attributes.identifier === correct[0]
+  )
+  return {
+    type: QuestionFormat.MultipleChoiceFormat,
+    choices: choices.map((choice, index) => {
+      const entry = mapping.find(
+        ({ key }) => key === choice.attributes.identifier
+      )
+      return {
+        text: textContent(choice, ['feedbackInline']),
+        points:
+          mapping.length !== 0
+            ? entry?.points ?? 0
+            : index === answer
+            ? fullCredit
+            : 0,
+      }
+    }),
+    answer: correct.length === 1 && answer !== -1 ? answer : undefined,
+    ...(interaction.attributes.shuffle === 'true' && { shuffle: true }),
+  }
+}
+
+/**
+ * Gets every element within an element
+ */
+function allElements(element: XmlElement): XmlElement[] {
+  return element.children.flatMap((child) =>
+    typeof child === 'string' ? [] : [child, ...allElements(child)]
+  )
+}
+
+function toPoints(value?: string): number | undefined {
+  const points = Number(value)
+  return value == null || !Number.isFinite(points) ? undefined : points
+}
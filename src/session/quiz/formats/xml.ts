@@ -0,0 +1,196 @@
+/**
+ * An element parsed from an XML document
+ */
+export interface XmlElement {
+  /**
+   * The element name, without any namespace prefix
+   */
+  name: string
+  attributes: { [name: string]: string }
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const entities: { [name: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * The deepest that elements can be nested. Elements are traversed
+ * recursively, so deeper documents are rejected.
+ */
+export const maxXmlDepth = 100
+
+/**
+ * Escapes text for use in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Parses the elements, attributes, and text of an XML document. Doctype
+ * declarations, processing instructions, and comments are skipped.
+ * @param text the document
+ * @returns the root element, or undefined if the document is malformed or
+ * nested deeper than `maxXmlDepth`
+ */
+export function parseXml(text: string): XmlElement | undefined {
+  const tag =
+    /<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  const stack: XmlElement[] = []
+  let root: XmlElement | undefined
+  let i = 0
+
+  const skipPast = (terminator: string): boolean => {
+    const end = text.indexOf(terminator, i)
+    if (end === -1) {
+      return false
+    }
+    i = end + terminator.length
+    return true
+  }
+
+  while (i < text.length) {
+    const parent = stack[stack.length - 1]
+    if (text.startsWith('<!--', i)) {
+      if (!skipPast('-->')) {
+        return undefined
+      }
+    } else if (text.startsWith('<![CDATA[', i)) {
+      const end = text.indexOf(']]>', i)
+      if (end === -1 || parent == null) {
+        return undefined
+      }
+      parent.children.push(text.slice(i + 9, end))
+      i = end + 3
+    } else if (text.startsWith('<?', i)) {
+      if (!skipPast('?>')) {
+        return undefined
+      }
+    } else if (text.startsWith('<!', i)) {
+      if (!skipPast('>')) {
+        return undefined
+      }
+    } else if (text.startsWith('</', i)) {
+      const end = text.indexOf('>', i)
+      if (end === -1) {
+        return undefined
+      }
+      const name = localName(text.slice(i + 2, end).trim())
+      if (stack.pop()?.name !== name) {
+        return undefined
+      }
+      i = end + 1
+    } else if (text[i] === '<') {
+      tag.lastIndex = i
+      const match = tag.exec(text)
+      if (
+        match == null ||
+        (parent == null && root != null) ||
+        stack.length === maxXmlDepth
+      ) {
+        return undefined
+      }
+
+      const element: XmlElement = {
+        name: localName(match[1]!),
+        attributes: {},
+        children: [],
+      }
+      for (const [, name, double, single] of match[2]!.matchAll(attribute)) {
+        element.attributes[localName(name!)] = decode(double ?? single ?? '')
+      }
+
+      if (parent == null) {
+        root = element
+      } else {
+        parent.children.push(element)
+      }
+      if (match[3] !== '/') {
+        stack.push(element)
+      }
+      i = tag.lastIndex
+    } else {
+      const end = text.indexOf('<', i)
+      const content = text.slice(i, end === -1 ? text.length : end)
+      if (parent != null) {
+        parent.children.push(decode(content))
+      } else if (content.trim().length !== 0) {
+        return undefined
+      }
+      i = end === -1 ? text.length : end
+    }
+  }
+
+  return stack.length === 0 ? root : undefined
+}
+
+/**
+ * Finds the child elements of an element with a given name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== 'string' && child.name === name
+  )
+}
+
+/**
+ * Finds all descendants of an element with a given name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  let found: XmlElement[] = []
+  element.children.forEach((child) => {
+    if (typeof child !== 'string') {
+      if (child.name === name) {
+        found.push(child)
+      }
+      found = found.concat(findElements(child, name))
+    }
+  })
+  return found
+}
+
+/**
+ * Gets all text within a node, with whitespace collapsed
+ * @param node the node
+ * @param exclude names of elements whose text is skipped
+ */
+export function textContent(node: XmlNode, exclude: string[] = []): string {
+  const collect = (node: XmlNode): string =>
+    typeof node === 'string'
+      ? node
+      : exclude.includes(node.name)
+      ? ' '
+      : node.children.map(collect).join('')
+  return collect(node).replace(/\s+/g, ' ').trim()
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1)
+}
+
+function decode(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10)
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return entities[name] ?? entity
+  })
+}
@@ -1,3 +1,4 @@
+export * from './formats'
 export * from './question'
 export * from './quiz'
 export * from './response'
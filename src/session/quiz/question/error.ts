@@ -0,0 +1,31 @@
+import { ApiError } from 'api/error'
+
+/**
+ * Wraps an error from a nested part, such as a Question in an imported
+ * file or a blank in a Question, so it includes where the part is
+ * @param field the field identifying the position
+ * @param index the position of the part, such as its index or line
+ * @param error the error from validating the part
+ * @returns the wrapped error
+ */
+export function nestError(
+  field: string,
+  index: number,
+  error: ApiError
+): ApiError {
+  const { field: errorField, value } = error
+  if (value != null && typeof value === 'object') {
+    return {
+      field,
+      value: {
+        index,
+        field: `${errorField}[${value.index}].${value.field}`,
+        value: value.value,
+      },
+    }
+  }
+  return {
+    field,
+    value: { index, field: errorField, value },
+  }
+}
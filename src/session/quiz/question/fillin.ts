@@ -2,16 +2,22 @@ import { ApiError } from 'api/error'
 import {
   FillIn,
   FillInAnswer,
+  FillInResponse,
   FillInSubmission,
+  FillInSubmissionAnswer,
   QuestionBodyType,
   QuestionFormat,
+  QuestionViewBodyType,
   ResponseType,
   Seconds,
+  TextMatchMode,
 } from 'api/question'
 import { Map } from 'immutable'
 import { Result, ResultType } from 'result'
 import Question from './question'
+import { registerQuestionType } from './registry'
 import { validateSubmission } from './submission'
+import { findMatch, isValidPattern } from './textmatch'
 
 export default class FillInQuestion extends Question {
   private _answers = Map<string, FillInAnswer>()
@@ -27,6 +33,27 @@ export default class FillInQuestion extends Question {
     }
   }
 
+  override get maxPoints(): number {
+    return Math.max(
+      0,
+      ...this.answers.valueSeq().map((answer) => answer.points)
+    )
+  }
+
+  get correctAnswers(): string[] {
+    return this.answers
+      .valueSeq()
+      .filter((answer) => answer.points > 0)
+      .map((answer) => answer.text)
+      .toArray()
+  }
+
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.FillInFormat,
+    }
+  }
+
   /**
    * Parses and validates a FillInQuestion from user submitted data that potentially contains
    * missing fields.
@@ -82,36 +109,13 @@ export default class FillInQuestion extends Question {
         value: answers == null ? null : answers.length,
       })
     } else {
-      let totalPoints: number | null = 0
+      let totalPoints = 0
       answers.forEach((answer, index) => {
-        if (answer.text == null || answer.text.length === 0) {
-          errors.push({
-            field: 'answers',
-            value: {
-              field: 'text',
-              index,
-              value: answer.text == null ? null : answer.text,
-            },
-          })
-        }
-        if (answer.points == null || answer.points < 0) {
-          errors.push({
-            field: 'answers',
-            value: {
-              field: 'points',
-              index,
-              value: answer.points == null ? null : answer.points,
-            },
-          })
-          totalPoints = 0
-        } else if (totalPoints !== null) {
-          totalPoints += answer.points
-        }
+        errors = errors.concat(validateFillInAnswer(answer, index))
+        totalPoints += Math.max(0, answer.points ?? 0)
       })
 
-      errors = errors.concat(
-        super.validateQuestionPoints(<number | null>totalPoints ?? 0)
-      )
+      errors = errors.concat(super.validateQuestionPoints(totalPoints))
     }
 
     return errors
@@ -139,6 +143,10 @@ export default class FillInQuestion extends Question {
         {
           text: answer.text!,
           points: answer.points!,
+          ...(answer.match != null && { match: answer.match }),
+          ...(answer.maxDistance != null && {
+            maxDistance: answer.maxDistance,
+          }),
         }
       )
       // populate a mapping of answer text to answer
@@ -155,8 +163,7 @@ export default class FillInQuestion extends Question {
       return 0
     }
 
-    const answer = response.answer.toLowerCase()
-    return this._frequency.get(answer) ?? 0
+    return this._frequency.get(this.keyOf(response.answer)) ?? 0
   }
 
   clone(): Question {
@@ -165,14 +172,7 @@ export default class FillInQuestion extends Question {
       this.body as FillIn,
       this._timeLimit
     )
-    copy._totalPoints = this.totalPoints
-    copy.onTimeout = this.onTimeout
-    copy._firstCorrect = this._firstCorrect
-    copy._frequency = this._frequency
-    copy._responses = this._responses
-    copy._hasEnded = this._hasEnded
-    copy._isStarted = this._isStarted
-    copy._responses = this._responses
+    this.copyStateTo(copy)
     return copy
   }
 
@@ -181,8 +181,7 @@ export default class FillInQuestion extends Question {
       return 0
     }
 
-    const answer = this._answers.get(response.answer.toLowerCase())
-    return answer != null ? answer.points : 0
+    return this.matchOf(response.answer)?.points ?? 0
   }
 
   protected updateFrequency(response: ResponseType) {
@@ -190,8 +189,106 @@ export default class FillInQuestion extends Question {
       return
     }
 
-    const answer = <string>response.answer
-    const prev = this._frequency.get(answer) ?? 0
-    this._frequency = this._frequency.set(answer, prev + 1)
+    const key = this.keyOf(response.answer)
+    const prev = this._frequency.get(key) ?? 0
+    this._frequency = this._frequency.set(key, prev + 1)
+  }
+
+  /**
+   * Finds the answer a response matches, preferring the answer worth the
+   * most points if it matches several
+   */
+  private matchOf(text: string): FillInAnswer | undefined {
+    return findMatch(text, this._answers.values())
   }
+
+  /**
+   * Gets the frequency key of a response, which is the answer it matches
+   * so that responses matching the same answer are counted together
+   */
+  private keyOf(text: string): string {
+    return (this.matchOf(text)?.text ?? text).toLowerCase()
+  }
+}
+
+registerQuestionType<FillInSubmission, FillIn, FillInResponse>(
+  QuestionFormat.FillInFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      FillInQuestion.fromFillInSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new FillInQuestion(text, body, timeLimit),
+    validateResponse: (response) => typeof response.answer === 'string',
+    responseToString: (response) => response.answer,
+  }
+)
+
+/**
+ * Validates one accepted answer of a fill-in blank
+ * @param answer the submitted answer
+ * @param index the position of the answer
+ * @returns errors for each invalid field of the answer
+ */
+export function validateFillInAnswer(
+  answer: FillInSubmissionAnswer,
+  index: number
+): ApiError[] {
+  const errors = <ApiError[]>[]
+  if (answer.text == null || answer.text.length === 0) {
+    errors.push({
+      field: 'answers',
+      value: {
+        field: 'text',
+        index,
+        value: answer.text == null ? null : answer.text,
+      },
+    })
+  }
+
+  if (
+    answer.match != null &&
+    (typeof answer.match !== 'number' ||
+      !Object.values(TextMatchMode).includes(answer.match))
+  ) {
+    errors.push({
+      field: 'answers',
+      value: { field: 'match', index, value: answer.match },
+    })
+  }
+
+  if (
+    answer.match === TextMatchMode.Pattern &&
+    answer.text != null &&
+    !isValidPattern(answer.text)
+  ) {
+    errors.push({
+      field: 'answers',
+      value: { field: 'text', index, value: answer.text },
+    })
+  }
+
+  if (
+    answer.maxDistance != null &&
+    (answer.match !== TextMatchMode.EditDistance ||
+      !Number.isInteger(answer.maxDistance) ||
+      answer.maxDistance < 0)
+  ) {
+    errors.push({
+      field: 'answers',
+      value: { field: 'maxDistance', index, value: answer.maxDistance },
+    })
+  }
+
+  if (answer.points == null || answer.points < 0) {
+    errors.push({
+      field: 'answers',
+      value: {
+        field: 'points',
+        index,
+        value: answer.points == null ? null : answer.points,
+      },
+    })
+  }
+
+  return errors
 }
@@ -0,0 +1,293 @@
+import { ApiError } from 'api/error'
+import {
+  FillInAnswer,
+  FillInBlank,
+  FillInBlanks,
+  FillInBlanksResponse,
+  FillInBlanksSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import { nestError } from './error'
+import { validateFillInAnswer } from './fillin'
+import Question from './question'
+import { isArrayOf, registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+import { findMatch } from './textmatch'
+
+/**
+ * A blank in question text, which is three or more underscores
+ */
+const blankPattern = /_{3,}/g
+
+export default class FillInBlanksQuestion extends Question {
+  private _blanks: FillInBlank[] = []
+
+  get blanks(): FillInBlank[] {
+    return this._blanks
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.FillInBlanksFormat,
+      blanks: this.blanks,
+    }
+  }
+
+  /**
+   * The best answer of each blank
+   */
+  get correctAnswers(): string[] {
+    return this.blanks.map(
+      (blank) =>
+        blank.answers.reduce((best, answer) =>
+          answer.points > best.points ? answer : best
+        ).text
+    )
+  }
+
+  /**
+   * The body of the Question without the answers
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.FillInBlanksFormat,
+      blanks: this.blanks.length,
+    }
+  }
+
+  /**
+   * The number of correct responses and the frequency of each response
+   * for every blank
+   */
+  override get statistics(): QuestionStatistics {
+    const blanks = this.blanks.map(() => ({
+      correct: 0,
+      frequency: <{ [response: string]: number }>{},
+    }))
+    this._responses.forEach((response) => {
+      if (response.type !== QuestionFormat.FillInBlanksFormat) {
+        return
+      }
+      blanks.forEach((blank, index) => {
+        const text = response.answer[index] ?? ''
+        const match = this.matchOf(index, text)
+        if (match != null && match.points > 0) {
+          blank.correct += 1
+        }
+        const key = (match?.text ?? text).toLowerCase()
+        blank.frequency[key] = (blank.frequency[key] ?? 0) + 1
+      })
+    })
+    return {
+      type: QuestionFormat.FillInBlanksFormat,
+      blanks,
+    }
+  }
+
+  /**
+   * Parses and validates a FillInBlanksQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission, with a placeholder for each blank
+   * @param body Question details (answers of each blank)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The FillInBlanksQuestion if parsed successfully, or errors
+   */
+  static fromFillInBlanksSubmission(
+    text?: string,
+    body?: FillInBlanksSubmission,
+    timeLimit?: Seconds
+  ): ResultType<FillInBlanksQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(text!, body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    if (errors.length !== 0) {
+      return {
+        type: Result.Failure,
+        errors,
+      }
+    }
+
+    const blanks = body!.blanks as FillInBlank[]
+    return {
+      type: Result.Success,
+      data: new FillInBlanksQuestion(
+        text!,
+        {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: blanks.map((blank) => ({
+            answers: blank.answers.map((answer) => ({
+              text: answer.text,
+              points: answer.points,
+              ...(answer.match != null && { match: answer.match }),
+              ...(answer.maxDistance != null && {
+                maxDistance: answer.maxDistance,
+              }),
+            })),
+          })),
+        },
+        timeLimit!
+      ),
+    }
+  }
+
+  private static validateBody(
+    text: string,
+    body: FillInBlanksSubmission
+  ): ApiError[] {
+    let errors = <ApiError[]>[]
+    const { blanks } = body
+    if (
+      blanks == null ||
+      blanks.length === 0 ||
+      blanks.length > this.maxFillInBlanks ||
+      blanks.length !== countBlanks(text)
+    ) {
+      errors.push({
+        field: 'blanks',
+        value: blanks == null ? null : blanks.length,
+      })
+      return errors
+    }
+
+    let totalPoints = 0
+    blanks.forEach(({ answers }, index) => {
+      if (
+        answers == null ||
+        answers.length < this.minFillInChoices ||
+        answers.length > this.maxFillInChoices
+      ) {
+        errors.push({
+          field: 'blanks',
+          value: {
+            field: 'answers',
+            index,
+            value: answers == null ? null : answers.length,
+          },
+        })
+        return
+      }
+
+      answers.forEach((answer, answerIndex) => {
+        errors = errors.concat(
+          validateFillInAnswer(answer, answerIndex).map((error) =>
+            nestError('blanks', index, error)
+          )
+        )
+      })
+      totalPoints += Math.max(0, ...answers.map((answer) => answer.points ?? 0))
+    })
+
+    return errors.concat(super.validateQuestionPoints(totalPoints))
+  }
+
+  constructor(text: string, body: FillInBlanks, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._blanks = [...body.blanks]
+    this._totalPoints = body.blanks.reduce(
+      (total, blank) =>
+        total + Math.max(0, ...blank.answers.map((answer) => answer.points)),
+      0
+    )
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.FillInBlanksFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.keyOf(response.answer)) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new FillInBlanksQuestion(
+      this._text,
+      this.body as FillInBlanks,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  /**
+   * Gives the points of the answer each blank's response matches
+   */
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.FillInBlanksFormat) {
+      return 0
+    }
+
+    return this.blanks.reduce(
+      (total, _, index) =>
+        total +
+        (this.matchOf(index, response.answer[index] ?? '')?.points ?? 0),
+      0
+    )
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.FillInBlanksFormat) {
+      return
+    }
+
+    const key = this.keyOf(response.answer)
+    const prev = this._frequency.get(key) ?? 0
+    this._frequency = this._frequency.set(key, prev + 1)
+  }
+
+  private matchOf(blank: number, text: string): FillInAnswer | undefined {
+    return findMatch(text, this.blanks[blank]!.answers)
+  }
+
+  /**
+   * Gets the frequency key of a response, with the answer each blank
+   * matched or otherwise the lowercase response to the blank
+   */
+  private keyOf(answer: string[]): string {
+    return JSON.stringify(
+      this.blanks.map((_, index) => {
+        const text = answer[index] ?? ''
+        return (this.matchOf(index, text)?.text ?? text).toLowerCase()
+      })
+    )
+  }
+}
+
+registerQuestionType<
+  FillInBlanksSubmission,
+  FillInBlanks,
+  FillInBlanksResponse
+>(QuestionFormat.FillInBlanksFormat, {
+  fromSubmission: (text, body, timeLimit) =>
+    FillInBlanksQuestion.fromFillInBlanksSubmission(text, body, timeLimit),
+  fromBody: (text, body, timeLimit) =>
+    new FillInBlanksQuestion(text, body, timeLimit),
+  validateResponse: (response) => isArrayOf(response.answer, 'string'),
+  responseToString: (response) => JSON.stringify(response.answer),
+})
+
+/**
+ * Counts the blanks in question text
+ */
+export function countBlanks(text: string): number {
+  return text.match(blankPattern)?.length ?? 0
+}
@@ -0,0 +1,255 @@
+import { ApiError } from 'api/error'
+import {
+  FreeText,
+  FreeTextResponse,
+  FreeTextSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Map } from 'immutable'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+import { normalizeWords } from './words'
+
+export default class FreeTextQuestion extends Question {
+  /**
+   * The number of words included in statistics
+   */
+  static readonly statisticsSize: number = 50
+
+  private _maxLength: number = Question.defaultFreeTextLength
+
+  get maxLength(): number {
+    return this._maxLength
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.FreeTextFormat,
+      maxLength: this.maxLength,
+    }
+  }
+
+  /**
+   * Free text questions have no correct answers
+   */
+  get correctAnswers(): string[] {
+    return []
+  }
+
+  /**
+   * The body of the Question as seen by participants
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.FreeTextFormat,
+      maxLength: this.maxLength,
+    }
+  }
+
+  override get isGraded(): boolean {
+    return false
+  }
+
+  /**
+   * The most common words in responses for a word cloud. Each word is
+   * shown in the form responses used most often.
+   */
+  override get statistics(): QuestionStatistics {
+    let forms = Map<string, Map<string, number>>() // keyed on stem
+    this._responses.forEach((response) => {
+      if (response.type === QuestionFormat.FreeTextFormat) {
+        normalizeWords(response.answer).forEach(({ word, stem }) => {
+          const uses = forms.get(stem) ?? Map<string, number>()
+          forms = forms.set(stem, uses.set(word, (uses.get(word) ?? 0) + 1))
+        })
+      }
+    })
+
+    return {
+      type: QuestionFormat.FreeTextFormat,
+      words: this._frequency
+        .entrySeq()
+        .sort(
+          ([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b)
+        )
+        .take(FreeTextQuestion.statisticsSize)
+        .map(([stem, count]) => ({
+          word:
+            forms
+              .get(stem)
+              ?.entrySeq()
+              .sort(
+                ([a, aUses], [b, bUses]) =>
+                  bUses - aUses || a.length - b.length || a.localeCompare(b)
+              )
+              .first()?.[0] ?? stem,
+          count,
+        }))
+        .toArray(),
+    }
+  }
+
+  /**
+   * Parses and validates a FreeTextQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (maximum response length)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The FreeTextQuestion if parsed successfully, or errors
+   */
+  static fromFreeTextSubmission(
+    text?: string,
+    body?: FreeTextSubmission,
+    timeLimit?: Seconds
+  ): ResultType<FreeTextQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    return errors.length === 0
+      ? {
+          type: Result.Success,
+          data: new FreeTextQuestion(
+            text!,
+            {
+              type: QuestionFormat.FreeTextFormat,
+              maxLength: body!.maxLength ?? this.defaultFreeTextLength,
+            },
+            timeLimit!
+          ),
+        }
+      : {
+          type: Result.Failure,
+          errors,
+        }
+  }
+
+  private static validateBody(body: FreeTextSubmission): ApiError[] {
+    const errors = <ApiError[]>[]
+    if (
+      body.maxLength != null &&
+      (!Number.isInteger(body.maxLength) ||
+        body.maxLength < 1 ||
+        body.maxLength > this.maxFreeTextLength)
+    ) {
+      errors.push({
+        field: 'maxLength',
+        value: body.maxLength,
+      })
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: FreeText, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._maxLength = body.maxLength
+  }
+
+  /**
+   * Adds a Response if its type is the same as the Question
+   * @param response Response to add
+   * @returns the grade of the Response, which is always 0
+   * @throws Error thrown if the response is longer than the maximum length,
+   * or for any reason `Question.addResponse` throws
+   */
+  override addResponse(response: ResponseType): number {
+    if (
+      response.type === QuestionFormat.FreeTextFormat &&
+      response.answer.length > this.maxLength
+    ) {
+      throw new Error('Response is too long')
+    }
+    return super.addResponse(response)
+  }
+
+  /**
+   * The number of responses with the same words as a response
+   */
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.FreeTextFormat) {
+      return 0
+    }
+
+    const key = stemsOf(response.answer)
+    return this._responses.count(
+      (other) =>
+        other.type === QuestionFormat.FreeTextFormat &&
+        stemsOf(other.answer) === key
+    )
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new FreeTextQuestion(
+      this._text,
+      this.body as FreeText,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  /**
+   * Responses to free text questions earn no points
+   */
+  protected gradeResponse(): number {
+    return 0
+  }
+
+  /**
+   * Counts each word once per response, keyed on its stem
+   */
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.FreeTextFormat) {
+      return
+    }
+
+    new Set(normalizeWords(response.answer).map(({ stem }) => stem)).forEach(
+      (stem) => {
+        const prev = this._frequency.get(stem) ?? 0
+        this._frequency = this._frequency.set(stem, prev + 1)
+      }
+    )
+  }
+}
+
+registerQuestionType<FreeTextSubmission, FreeText, FreeTextResponse>(
+  QuestionFormat.FreeTextFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      FreeTextQuestion.fromFreeTextSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new FreeTextQuestion(text, body, timeLimit),
+    validateResponse: (response) => typeof response.answer === 'string',
+    responseToString: (response) => response.answer,
+  }
+)
+
+/**
+ * Gets the distinct stems in a response, in order, as a single string
+ */
+function stemsOf(answer: string): string {
+  return [...new Set(normalizeWords(answer).map(({ stem }) => stem))]
+    .sort()
+    .join(' ')
+}
@@ -1,3 +1,5 @@
+export * from './error'
 export * from './feedback'
 export * from './question'
+export * from './registry'
 export * from './submission'
@@ -0,0 +1,265 @@
+import { ApiError } from 'api/error'
+import {
+  Matching,
+  MatchingPair,
+  MatchingResponse,
+  MatchingSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { isArrayOf, registerQuestionType } from './registry'
+import { shuffledOrder } from './shuffle'
+import { validateSubmission } from './submission'
+
+export default class MatchingQuestion extends Question {
+  private _pairs: MatchingPair[] = []
+  private _definitionOrder: number[] = []
+
+  get pairs(): MatchingPair[] {
+    return this._pairs
+  }
+
+  get definitionOrder(): number[] {
+    return this._definitionOrder
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.MatchingFormat,
+      pairs: this.pairs,
+      definitionOrder: this.definitionOrder,
+      points: this.totalPoints,
+    }
+  }
+
+  get correctAnswers(): string[] {
+    return this.pairs.map((pair) => `${pair.term}: ${pair.definition}`)
+  }
+
+  /**
+   * The body of the Question with the definitions shuffled
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.MatchingFormat,
+      terms: this.pairs.map((pair) => pair.term),
+      definitions: this.definitionOrder.map(
+        (index) => this.pairs[index]!.definition
+      ),
+    }
+  }
+
+  /**
+   * The number of responses matching each pair correctly
+   */
+  override get statistics(): QuestionStatistics {
+    const pairs = this.pairs.map(() => 0)
+    this._responses.forEach((response) => {
+      if (response.type === QuestionFormat.MatchingFormat) {
+        this.matchesOf(response.answer).forEach((match, index) => {
+          if (match === index) {
+            pairs[index] += 1
+          }
+        })
+      }
+    })
+    return {
+      type: QuestionFormat.MatchingFormat,
+      pairs,
+    }
+  }
+
+  /**
+   * Parses and validates a MatchingQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (pairs, points)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The MatchingQuestion if parsed successfully, or errors
+   */
+  static fromMatchingSubmission(
+    text?: string,
+    body?: MatchingSubmission,
+    timeLimit?: Seconds
+  ): ResultType<MatchingQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    if (errors.length !== 0) {
+      return {
+        type: Result.Failure,
+        errors,
+      }
+    }
+
+    const pairs = body!.pairs as MatchingPair[]
+    return {
+      type: Result.Success,
+      data: new MatchingQuestion(
+        text!,
+        {
+          type: QuestionFormat.MatchingFormat,
+          pairs: pairs.map(({ term, definition }) => ({ term, definition })),
+          definitionOrder: shuffledOrder(pairs.length),
+          points: body!.points!,
+        },
+        timeLimit!
+      ),
+    }
+  }
+
+  private static validateBody(body: MatchingSubmission): ApiError[] {
+    let errors = <ApiError[]>[]
+    const { pairs } = body
+    if (
+      pairs == null ||
+      pairs.length < this.minMatchingPairs ||
+      pairs.length > this.maxMatchingPairs
+    ) {
+      errors.push({
+        field: 'pairs',
+        value: pairs == null ? null : pairs.length,
+      })
+    } else {
+      const terms = new Set<string>()
+      const definitions = new Set<string>()
+      pairs.forEach((pair, index) => {
+        if (
+          pair.term == null ||
+          pair.term.length === 0 ||
+          terms.has(pair.term)
+        ) {
+          errors.push({
+            field: 'pairs',
+            value: {
+              field: 'term',
+              index,
+              value: pair.term == null ? null : pair.term,
+            },
+          })
+        }
+        if (
+          pair.definition == null ||
+          pair.definition.length === 0 ||
+          definitions.has(pair.definition)
+        ) {
+          errors.push({
+            field: 'pairs',
+            value: {
+              field: 'definition',
+              index,
+              value: pair.definition == null ? null : pair.definition,
+            },
+          })
+        }
+        terms.add(pair.term ?? '')
+        definitions.add(pair.definition ?? '')
+      })
+    }
+
+    if (body.points == null) {
+      errors.push({
+        field: 'points',
+        value: null,
+      })
+    } else {
+      errors = errors.concat(super.validateQuestionPoints(body.points))
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: Matching, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._pairs = [...body.pairs]
+    this._definitionOrder = [...body.definitionOrder]
+    this._totalPoints = body.points
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.MatchingFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.matchesOf(response.answer).join()) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new MatchingQuestion(
+      this._text,
+      this.body as Matching,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  /**
+   * Gives an equal share of the points for each pair matched correctly
+   */
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.MatchingFormat) {
+      return 0
+    }
+
+    const correct = this.matchesOf(response.answer).filter(
+      (match, index) => match === index
+    ).length
+    return Math.round((this.totalPoints * correct) / this.pairs.length)
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.MatchingFormat) {
+      return
+    }
+
+    const key = this.matchesOf(response.answer).join()
+    const prev = this._frequency.get(key) ?? 0
+    this._frequency = this._frequency.set(key, prev + 1)
+  }
+
+  /**
+   * Converts a response from the order definitions were shown in to the
+   * index of the pair each definition belongs to
+   * @returns the pair matched with each term, or -1 if the term was not
+   * matched
+   */
+  private matchesOf(answer: number[]): number[] {
+    return this.pairs.map((_, index) => {
+      const shown = answer[index]
+      return shown == null ? -1 : this.definitionOrder[shown] ?? -1
+    })
+  }
+}
+
+registerQuestionType<MatchingSubmission, Matching, MatchingResponse>(
+  QuestionFormat.MatchingFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      MatchingQuestion.fromMatchingSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new MatchingQuestion(text, body, timeLimit),
+    validateResponse: (response) => isArrayOf(response.answer, 'number'),
+    responseToString: (response) => response.answer.join(),
+  }
+)
@@ -2,19 +2,23 @@ import { ApiError } from 'api/error'
 import {
   MultipleChoice,
   MultipleChoiceAnswer,
+  MultipleChoiceResponse,
   MultipleChoiceSubmission,
   QuestionBodyType,
   QuestionFormat,
+  QuestionViewBodyType,
   ResponseType,
   Seconds,
 } from 'api/question'
 import { Result, ResultType } from 'result'
 import Question from './question'
+import { registerQuestionType } from './registry'
 import { validateSubmission } from './submission'
 
 export default class MultipleChoiceQuestion extends Question {
   private _answer: number = -1
   private _choices: MultipleChoiceAnswer[] = []
+  private _shuffle: boolean = false
 
   get choices(): MultipleChoiceAnswer[] {
     return this._choices
@@ -24,6 +28,13 @@ export default class MultipleChoiceQuestion extends Question {
     return this._answer
   }
 
+  /**
+   * True if each participant sees the choices in their own order
+   */
+  get shuffle(): boolean {
+    return this._shuffle
+  }
+
   /**
    * The body of the Question
    */
@@ -32,6 +43,37 @@ export default class MultipleChoiceQuestion extends Question {
       type: QuestionFormat.MultipleChoiceFormat,
       answer: this.answer,
       choices: this.choices,
+      ...(this.shuffle && { shuffle: true }),
+    }
+  }
+
+  /**
+   * The points of the answer, since no other choice is correct
+   */
+  override get maxPoints(): number {
+    return this.choices[this.answer]?.points ?? 0
+  }
+
+  get correctAnswers(): string[] {
+    return [this.choices[this.answer]!.text]
+  }
+
+  /**
+   * The body of the Question without the answer or choice points
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.MultipleChoiceFormat,
+      choices: this.choices.map((choice) => ({ text: choice.text })),
+    }
+  }
+
+  protected override viewBodyFor(user: string): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.MultipleChoiceFormat,
+      choices: this.orderFor(user).map((index) => ({
+        text: this.choices[index]!.text,
+      })),
     }
   }
 
@@ -62,7 +104,12 @@ export default class MultipleChoiceQuestion extends Question {
           type: Result.Success,
           data: new MultipleChoiceQuestion(
             text!,
-            body as MultipleChoice,
+            {
+              type: QuestionFormat.MultipleChoiceFormat,
+              choices: body!.choices as MultipleChoiceAnswer[],
+              answer: body!.answer!,
+              ...(body!.shuffle && { shuffle: true }),
+            },
             timeLimit!
           ),
         }
@@ -127,6 +174,10 @@ export default class MultipleChoiceQuestion extends Question {
       })
     }
 
+    if (body.shuffle != null && typeof body.shuffle !== 'boolean') {
+      errors.push({ field: 'shuffle', value: null })
+    }
+
     return errors
   }
 
@@ -144,15 +195,46 @@ export default class MultipleChoiceQuestion extends Question {
     })
     this._choices = [...body.choices]
     this._answer = body.answer
+    this._shuffle = body.shuffle ?? false
     this._totalPoints = totalPoints
   }
 
+  /**
+   * The order a participant sees the choices in, which is the same every
+   * time for the same participant
+   * @param user name of the participant
+   * @returns indices of the choices in the order the participant sees them
+   */
+  orderFor(user: string): number[] {
+    return this.shuffle
+      ? this.shuffledOrderFor(user, this.choices.length)
+      : [...this.choices.keys()]
+  }
+
+  override canonicalResponse(response: ResponseType): ResponseType {
+    if (response.type !== QuestionFormat.MultipleChoiceFormat) {
+      return response
+    }
+
+    return { ...response, answer: this.choiceOf(response) }
+  }
+
+  /**
+   * Finds the choice a participant selected from the index they saw it at
+   */
+  private choiceOf(response: MultipleChoiceResponse): number {
+    if (!this.shuffle) {
+      return response.answer
+    }
+    return this.orderFor(response.submitter)[response.answer]!
+  }
+
   frequencyOf(response: ResponseType): number {
     if (response.type !== QuestionFormat.MultipleChoiceFormat) {
       return 0
     }
 
-    const answer = response.answer.toString()
+    const answer = this.choiceOf(response).toString()
     return this._frequency.get(answer)!
   }
 
@@ -166,23 +248,25 @@ export default class MultipleChoiceQuestion extends Question {
       this.body as MultipleChoice,
       this._timeLimit
     )
-    copy._totalPoints = this.totalPoints
-    copy.onTimeout = this.onTimeout
-    copy._firstCorrect = this._firstCorrect
-    copy._frequency = this._frequency
-    copy._responses = this._responses
-    copy._hasEnded = this._hasEnded
-    copy._isStarted = this._isStarted
-    copy._responses = this._responses
+    this.copyStateTo(copy)
     return copy
   }
 
+  protected override acceptsResponse(response: ResponseType): boolean {
+    return (
+      response.type === QuestionFormat.MultipleChoiceFormat &&
+      Number.isInteger(response.answer) &&
+      response.answer >= 0 &&
+      response.answer < this.choices.length
+    )
+  }
+
   protected gradeResponse(response: ResponseType): number {
     if (response.type !== QuestionFormat.MultipleChoiceFormat) {
       return 0
     }
 
-    return response.answer === this.answer
+    return this.choiceOf(response) === this.answer
       ? this.choices[this.answer]!.points
       : 0
   }
@@ -192,8 +276,21 @@ export default class MultipleChoiceQuestion extends Question {
       return
     }
 
-    const answer = response.answer.toString()
+    const answer = this.choiceOf(response).toString()
     const prev = this._frequency.get(answer)!
     this._frequency = this._frequency.set(answer, prev + 1)
   }
 }
+
+registerQuestionType<
+  MultipleChoiceSubmission,
+  MultipleChoice,
+  MultipleChoiceResponse
+>(QuestionFormat.MultipleChoiceFormat, {
+  fromSubmission: (text, body, timeLimit) =>
+    MultipleChoiceQuestion.fromMultipleChoiceSubmission(text, body, timeLimit),
+  fromBody: (text, body, timeLimit) =>
+    new MultipleChoiceQuestion(text, body, timeLimit),
+  validateResponse: (response) => typeof response.answer === 'number',
+  responseToString: (response) => response.answer.toString(),
+})
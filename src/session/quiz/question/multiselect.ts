@@ -0,0 +1,345 @@
+import { ApiError } from 'api/error'
+import {
+  MultiSelect,
+  MultiSelectChoice,
+  MultiSelectResponse,
+  MultiSelectScoring,
+  MultiSelectSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { isArrayOf, registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+
+export default class MultiSelectQuestion extends Question {
+  private _answers: number[] = []
+  private _choices: MultiSelectChoice[] = []
+  private _scoring: MultiSelectScoring = MultiSelectScoring.AllOrNothing
+  private _shuffle: boolean = false
+
+  get choices(): MultiSelectChoice[] {
+    return this._choices
+  }
+
+  get answers(): number[] {
+    return this._answers
+  }
+
+  get scoring(): MultiSelectScoring {
+    return this._scoring
+  }
+
+  /**
+   * True if each participant sees the choices in their own order
+   */
+  get shuffle(): boolean {
+    return this._shuffle
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.MultiSelectFormat,
+      choices: this.choices,
+      answers: this.answers,
+      points: this.totalPoints,
+      scoring: this.scoring,
+      ...(this.shuffle && { shuffle: true }),
+    }
+  }
+
+  get correctAnswers(): string[] {
+    return this.answers.map((answer) => this.choices[answer]!.text)
+  }
+
+  /**
+   * The body of the Question without the correct choices
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.MultiSelectFormat,
+      choices: this.choices.map((choice) => ({ text: choice.text })),
+    }
+  }
+
+  protected override viewBodyFor(user: string): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.MultiSelectFormat,
+      choices: this.orderFor(user).map((index) => ({
+        text: this.choices[index]!.text,
+      })),
+    }
+  }
+
+  /**
+   * The number of responses selecting each choice
+   */
+  override get statistics(): QuestionStatistics {
+    const choices = this.choices.map(() => 0)
+    this._responses.forEach((response) => {
+      if (response.type === QuestionFormat.MultiSelectFormat) {
+        this.selectionOf(response).forEach((index) => {
+          choices[index] += 1
+        })
+      }
+    })
+    return {
+      type: QuestionFormat.MultiSelectFormat,
+      choices,
+    }
+  }
+
+  /**
+   * Parses and validates a MultiSelectQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (choices, correct choices, points, scoring)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The MultiSelectQuestion if parsed successfully, or errors
+   */
+  static fromMultiSelectSubmission(
+    text?: string,
+    body?: MultiSelectSubmission,
+    timeLimit?: Seconds
+  ): ResultType<MultiSelectQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    return errors.length === 0
+      ? {
+          type: Result.Success,
+          data: new MultiSelectQuestion(
+            text!,
+            {
+              type: QuestionFormat.MultiSelectFormat,
+              choices: body!.choices as MultiSelectChoice[],
+              answers: body!.answers!,
+              points: body!.points!,
+              scoring: body!.scoring ?? MultiSelectScoring.AllOrNothing,
+              ...(body!.shuffle && { shuffle: true }),
+            },
+            timeLimit!
+          ),
+        }
+      : {
+          type: Result.Failure,
+          errors,
+        }
+  }
+
+  private static validateBody(body: MultiSelectSubmission): ApiError[] {
+    let errors = <ApiError[]>[]
+    const { choices, answers } = body
+    if (
+      choices == null ||
+      choices.length < this.minMultiSelectChoices ||
+      choices.length > this.maxMultiSelectChoices
+    ) {
+      errors.push({
+        field: 'choices',
+        value: choices == null ? null : choices.length,
+      })
+    } else {
+      choices.forEach((choice, index) => {
+        if (choice.text == null || choice.text.length === 0) {
+          errors.push({
+            field: 'choices',
+            value: {
+              field: 'text',
+              index,
+              value: choice.text == null ? null : choice.text,
+            },
+          })
+        }
+      })
+    }
+
+    if (answers == null || answers.length === 0) {
+      errors.push({
+        field: 'answers',
+        value: answers == null ? null : 0,
+      })
+    } else {
+      answers.forEach((answer, index) => {
+        if (
+          !Number.isInteger(answer) ||
+          answer < 0 ||
+          (choices != null && answer >= choices.length) ||
+          answers.indexOf(answer) !== index
+        ) {
+          errors.push({
+            field: 'answers',
+            value: {
+              field: 'choice',
+              index,
+              value: answer == null ? null : answer,
+            },
+          })
+        }
+      })
+    }
+
+    if (body.points == null) {
+      errors.push({
+        field: 'points',
+        value: null,
+      })
+    } else {
+      errors = errors.concat(super.validateQuestionPoints(body.points))
+    }
+
+    if (
+      body.scoring != null &&
+      (typeof body.scoring !== 'number' ||
+        !Object.values(MultiSelectScoring).includes(body.scoring))
+    ) {
+      errors.push({
+        field: 'scoring',
+        value: body.scoring,
+      })
+    }
+
+    if (body.shuffle != null && typeof body.shuffle !== 'boolean') {
+      errors.push({ field: 'shuffle', value: null })
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: MultiSelect, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._choices = [...body.choices]
+    this._answers = [...body.answers]
+    this._scoring = body.scoring
+    this._shuffle = body.shuffle ?? false
+    this._totalPoints = body.points
+  }
+
+  /**
+   * The order a participant sees the choices in, which is the same every
+   * time for the same participant
+   * @param user name of the participant
+   * @returns indices of the choices in the order the participant sees them
+   */
+  orderFor(user: string): number[] {
+    return this.shuffle
+      ? this.shuffledOrderFor(user, this.choices.length)
+      : [...this.choices.keys()]
+  }
+
+  override canonicalResponse(response: ResponseType): ResponseType {
+    if (response.type !== QuestionFormat.MultiSelectFormat) {
+      return response
+    }
+
+    return { ...response, answer: this.selectionOf(response) }
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.MultiSelectFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.selectionOf(response).join()) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new MultiSelectQuestion(
+      this._text,
+      this.body as MultiSelect,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  protected override acceptsResponse(response: ResponseType): boolean {
+    return (
+      response.type === QuestionFormat.MultiSelectFormat &&
+      response.answer.every(
+        (index, position) =>
+          Number.isInteger(index) &&
+          index >= 0 &&
+          index < this.choices.length &&
+          response.answer.indexOf(index) === position
+      )
+    )
+  }
+
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.MultiSelectFormat) {
+      return 0
+    }
+
+    const selection = this.selectionOf(response)
+    const correct = selection.filter((index) => this.answers.includes(index))
+    const incorrect = selection.length - correct.length
+    switch (this.scoring) {
+      case MultiSelectScoring.AllOrNothing:
+        return correct.length === this.answers.length && incorrect === 0
+          ? this.totalPoints
+          : 0
+      case MultiSelectScoring.PartialCredit:
+        return Math.max(
+          0,
+          Math.round(
+            (this.totalPoints * (correct.length - incorrect)) /
+              this.answers.length
+          )
+        )
+      default:
+        return 0
+    }
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.MultiSelectFormat) {
+      return
+    }
+
+    const selection = this.selectionOf(response).join()
+    const prev = this._frequency.get(selection) ?? 0
+    this._frequency = this._frequency.set(selection, prev + 1)
+  }
+
+  /**
+   * Gets the choices in a response, in order, from the indices the
+   * participant saw them at
+   */
+  private selectionOf(response: MultiSelectResponse): number[] {
+    const order = this.orderFor(response.submitter)
+    return response.answer.map((index) => order[index]!).sort((a, b) => a - b)
+  }
+}
+
+registerQuestionType<MultiSelectSubmission, MultiSelect, MultiSelectResponse>(
+  QuestionFormat.MultiSelectFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      MultiSelectQuestion.fromMultiSelectSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new MultiSelectQuestion(text, body, timeLimit),
+    validateResponse: (response) => isArrayOf(response.answer, 'number'),
+    responseToString: (response) =>
+      [...response.answer].sort((a, b) => a - b).join(),
+  }
+)
@@ -0,0 +1,314 @@
+import { ApiError } from 'api/error'
+import {
+  Numeric,
+  NumericResponse,
+  NumericSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+  ToleranceType,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+
+export default class NumericQuestion extends Question {
+  private _answer: number = 0
+  private _tolerance: number = 0
+  private _toleranceType: ToleranceType = ToleranceType.Absolute
+  private _units: string | null = null
+
+  get answer(): number {
+    return this._answer
+  }
+
+  get tolerance(): number {
+    return this._tolerance
+  }
+
+  get toleranceType(): ToleranceType {
+    return this._toleranceType
+  }
+
+  get units(): string | null {
+    return this._units
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.NumericFormat,
+      answer: this.answer,
+      tolerance: this.tolerance,
+      toleranceType: this.toleranceType,
+      units: this.units,
+      points: this.totalPoints,
+    }
+  }
+
+  get correctAnswers(): string[] {
+    let answer = this.answer.toString()
+    if (this.tolerance > 0) {
+      answer += ` ± ${this.tolerance}`
+      if (this.toleranceType === ToleranceType.Relative) {
+        answer += '%'
+      }
+    }
+    if (this.units != null) {
+      answer += ` ${this.units}`
+    }
+    return [answer]
+  }
+
+  /**
+   * The body of the Question without the answer
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.NumericFormat,
+      units: this.units,
+    }
+  }
+
+  /**
+   * A histogram of responses, with one bucket for the range of correct
+   * answers and buckets of `bucketWidth` on either side of it
+   */
+  override get statistics(): QuestionStatistics {
+    const width = this.bucketWidth
+    const lowest = this.answer - this.margin
+    const highest = this.answer + this.margin
+    return {
+      type: QuestionFormat.NumericFormat,
+      buckets: this._frequency
+        .entrySeq()
+        .map(([key, count]) => {
+          const bucket = Number(key)
+          if (bucket === 0) {
+            return { min: clean(lowest), max: clean(highest), count }
+          }
+          const min =
+            bucket > 0
+              ? highest + (bucket - 1) * width
+              : lowest + bucket * width
+          return { min: clean(min), max: clean(min + width), count }
+        })
+        .sortBy((bucket) => bucket.min)
+        .toArray(),
+    }
+  }
+
+  /**
+   * Parses and validates a NumericQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (answer, tolerance, units, points)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The NumericQuestion if parsed successfully, or errors
+   */
+  static fromNumericSubmission(
+    text?: string,
+    body?: NumericSubmission,
+    timeLimit?: Seconds
+  ): ResultType<NumericQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    return errors.length === 0
+      ? {
+          type: Result.Success,
+          data: new NumericQuestion(
+            text!,
+            {
+              type: QuestionFormat.NumericFormat,
+              answer: body!.answer!,
+              tolerance: body!.tolerance ?? 0,
+              toleranceType: body!.toleranceType ?? ToleranceType.Absolute,
+              units: body!.units || null,
+              points: body!.points!,
+            },
+            timeLimit!
+          ),
+        }
+      : {
+          type: Result.Failure,
+          errors,
+        }
+  }
+
+  private static validateBody(body: NumericSubmission): ApiError[] {
+    let errors = <ApiError[]>[]
+    if (!Number.isFinite(body.answer)) {
+      errors.push({
+        field: 'answer',
+        value: body.answer == null ? null : body.answer,
+      })
+    }
+
+    if (
+      body.tolerance != null &&
+      (!Number.isFinite(body.tolerance) || body.tolerance < 0)
+    ) {
+      errors.push({
+        field: 'tolerance',
+        value: body.tolerance,
+      })
+    }
+
+    if (
+      body.toleranceType != null &&
+      (typeof body.toleranceType !== 'number' ||
+        !Object.values(ToleranceType).includes(body.toleranceType))
+    ) {
+      errors.push({
+        field: 'toleranceType',
+        value: body.toleranceType,
+      })
+    }
+
+    if (body.units != null && typeof body.units !== 'string') {
+      errors.push({
+        field: 'units',
+        value: null,
+      })
+    }
+
+    if (body.points == null) {
+      errors.push({
+        field: 'points',
+        value: null,
+      })
+    } else {
+      errors = errors.concat(super.validateQuestionPoints(body.points))
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: Numeric, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._answer = body.answer
+    this._tolerance = body.tolerance
+    this._toleranceType = body.toleranceType
+    this._units = body.units
+    this._totalPoints = body.points
+  }
+
+  /**
+   * Width of the histogram buckets outside the range of correct answers.
+   * Buckets are as wide as that range, but at least a hundredth of the
+   * answer so that a small or zero tolerance does not give each distinct
+   * response its own bucket.
+   */
+  private get bucketWidth(): number {
+    const minWidth = this.answer === 0 ? 0.01 : Math.abs(this.answer) / 100
+    return Math.max(2 * this.margin, minWidth)
+  }
+
+  /**
+   * The greatest distance from the answer that a correct response can be
+   */
+  private get margin(): number {
+    return this.toleranceType === ToleranceType.Relative
+      ? (Math.abs(this.answer) * this.tolerance) / 100
+      : this.tolerance
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.NumericFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.bucketOf(response.answer)) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new NumericQuestion(
+      this._text,
+      this.body as Numeric,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.NumericFormat) {
+      return 0
+    }
+
+    return this.isCorrect(response.answer) ? this.totalPoints : 0
+  }
+
+  /**
+   * Checks if a value is within the range of correct answers, including
+   * both ends of the range
+   */
+  private isCorrect(value: number): boolean {
+    // Allow for floating point error in the difference
+    const epsilon = 1e-9 * Math.max(1, Math.abs(this.answer))
+    return Math.abs(value - this.answer) <= this.margin + epsilon
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.NumericFormat) {
+      return
+    }
+
+    const bucket = this.bucketOf(response.answer)
+    const prev = this._frequency.get(bucket) ?? 0
+    this._frequency = this._frequency.set(bucket, prev + 1)
+  }
+
+  /**
+   * Finds the histogram bucket of a response. Bucket 0 holds the correct
+   * answers, and buckets are numbered outwards from it, negative below.
+   */
+  private bucketOf(value: number): string {
+    if (this.isCorrect(value)) {
+      return '0'
+    }
+    const width = this.bucketWidth
+    const bucket =
+      value > this.answer
+        ? Math.ceil((value - (this.answer + this.margin)) / width)
+        : -Math.ceil((this.answer - this.margin - value) / width)
+    return bucket.toString()
+  }
+}
+
+registerQuestionType<NumericSubmission, Numeric, NumericResponse>(
+  QuestionFormat.NumericFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      NumericQuestion.fromNumericSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new NumericQuestion(text, body, timeLimit),
+    validateResponse: (response) => Number.isFinite(response.answer),
+    responseToString: (response) => response.answer.toString(),
+  }
+)
+
+/**
+ * Removes floating point error from bucket bounds
+ */
+function clean(value: number): number {
+  return Number(value.toPrecision(12))
+}
@@ -0,0 +1,327 @@
+import { ApiError } from 'api/error'
+import {
+  Ordering,
+  OrderingItem,
+  OrderingResponse,
+  OrderingScoring,
+  OrderingSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { isArrayOf, registerQuestionType } from './registry'
+import { shuffledOrder } from './shuffle'
+import { validateSubmission } from './submission'
+
+export default class OrderingQuestion extends Question {
+  /**
+   * The number of orderings included in statistics
+   */
+  static readonly statisticsSize: number = 5
+
+  private _items: OrderingItem[] = []
+  private _displayOrder: number[] = []
+  private _scoring: OrderingScoring = OrderingScoring.ExactMatch
+  private _shuffle: boolean = false
+
+  get items(): OrderingItem[] {
+    return this._items
+  }
+
+  get displayOrder(): number[] {
+    return this._displayOrder
+  }
+
+  get scoring(): OrderingScoring {
+    return this._scoring
+  }
+
+  /**
+   * True if each participant sees the items in their own order
+   */
+  get shuffle(): boolean {
+    return this._shuffle
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.OrderingFormat,
+      items: this.items,
+      displayOrder: this.displayOrder,
+      points: this.totalPoints,
+      scoring: this.scoring,
+      ...(this.shuffle && { shuffle: true }),
+    }
+  }
+
+  get correctAnswers(): string[] {
+    return [this.items.map((item) => item.text).join(', ')]
+  }
+
+  /**
+   * The body of the Question with the items shuffled
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.OrderingFormat,
+      items: this.displayOrder.map((index) => ({
+        text: this.items[index]!.text,
+      })),
+    }
+  }
+
+  protected override viewBodyFor(user: string): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.OrderingFormat,
+      items: this.displayOrderFor(user).map((index) => ({
+        text: this.items[index]!.text,
+      })),
+    }
+  }
+
+  /**
+   * The most common orderings submitted
+   */
+  override get statistics(): QuestionStatistics {
+    return {
+      type: QuestionFormat.OrderingFormat,
+      orderings: this._frequency
+        .entrySeq()
+        .sortBy(([, count]) => -count)
+        .take(OrderingQuestion.statisticsSize)
+        .map(([key, count]) => ({
+          items: key.split(',').map((index) => this.items[Number(index)]!.text),
+          count,
+        }))
+        .toArray(),
+    }
+  }
+
+  /**
+   * Parses and validates an OrderingQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (items in order, points, scoring)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The OrderingQuestion if parsed successfully, or errors
+   */
+  static fromOrderingSubmission(
+    text?: string,
+    body?: OrderingSubmission,
+    timeLimit?: Seconds
+  ): ResultType<OrderingQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    if (errors.length !== 0) {
+      return {
+        type: Result.Failure,
+        errors,
+      }
+    }
+
+    const items = body!.items as OrderingItem[]
+    return {
+      type: Result.Success,
+      data: new OrderingQuestion(
+        text!,
+        {
+          type: QuestionFormat.OrderingFormat,
+          items: items.map((item) => ({ text: item.text })),
+          displayOrder: shuffledOrder(items.length),
+          points: body!.points!,
+          scoring: body!.scoring ?? OrderingScoring.ExactMatch,
+          ...(body!.shuffle && { shuffle: true }),
+        },
+        timeLimit!
+      ),
+    }
+  }
+
+  private static validateBody(body: OrderingSubmission): ApiError[] {
+    let errors = <ApiError[]>[]
+    const { items } = body
+    if (
+      items == null ||
+      items.length < this.minOrderingItems ||
+      items.length > this.maxOrderingItems
+    ) {
+      errors.push({
+        field: 'items',
+        value: items == null ? null : items.length,
+      })
+    } else {
+      items.forEach((item, index) => {
+        if (item.text == null || item.text.length === 0) {
+          errors.push({
+            field: 'items',
+            value: {
+              field: 'text',
+              index,
+              value: item.text == null ? null : item.text,
+            },
+          })
+        }
+      })
+    }
+
+    if (body.points == null) {
+      errors.push({
+        field: 'points',
+        value: null,
+      })
+    } else {
+      errors = errors.concat(super.validateQuestionPoints(body.points))
+    }
+
+    if (
+      body.scoring != null &&
+      (typeof body.scoring !== 'number' ||
+        !Object.values(OrderingScoring).includes(body.scoring))
+    ) {
+      errors.push({
+        field: 'scoring',
+        value: body.scoring,
+      })
+    }
+
+    if (body.shuffle != null && typeof body.shuffle !== 'boolean') {
+      errors.push({ field: 'shuffle', value: null })
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: Ordering, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._items = [...body.items]
+    this._displayOrder = [...body.displayOrder]
+    this._scoring = body.scoring
+    this._shuffle = body.shuffle ?? false
+    this._totalPoints = body.points
+  }
+
+  /**
+   * The order a participant sees the items in, which is never the correct
+   * order and is the same every time for the same participant
+   * @param user name of the participant
+   * @returns indices of the items in the order the participant sees them
+   */
+  displayOrderFor(user: string): number[] {
+    return this.shuffle
+      ? shuffledOrder(this.items.length, this.randomFor(user))
+      : this.displayOrder
+  }
+
+  override canonicalResponse(response: ResponseType): ResponseType {
+    if (response.type !== QuestionFormat.OrderingFormat || !this.shuffle) {
+      return response
+    }
+
+    return {
+      ...response,
+      answer: this.orderOf(response).map((item) =>
+        this.displayOrder.indexOf(item)
+      ),
+    }
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.OrderingFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.orderOf(response).join()) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new OrderingQuestion(
+      this._text,
+      this.body as Ordering,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  protected override acceptsResponse(response: ResponseType): boolean {
+    return (
+      response.type === QuestionFormat.OrderingFormat &&
+      response.answer.length === this.items.length &&
+      response.answer.every(
+        (index, position) =>
+          Number.isInteger(index) &&
+          index >= 0 &&
+          index < this.items.length &&
+          response.answer.indexOf(index) === position
+      )
+    )
+  }
+
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.OrderingFormat) {
+      return 0
+    }
+
+    const order = this.orderOf(response)
+    const correct = order.filter((item, index) => item === index).length
+    switch (this.scoring) {
+      case OrderingScoring.ExactMatch:
+        return correct === this.items.length ? this.totalPoints : 0
+      case OrderingScoring.PartialCredit:
+        return Math.round((this.totalPoints * correct) / this.items.length)
+      default:
+        return 0
+    }
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.OrderingFormat) {
+      return
+    }
+
+    const key = this.orderOf(response).join()
+    const prev = this._frequency.get(key) ?? 0
+    this._frequency = this._frequency.set(key, prev + 1)
+  }
+
+  /**
+   * Converts a response from the order items were shown in to the
+   * original item indices
+   */
+  private orderOf(response: OrderingResponse): number[] {
+    const displayOrder = this.displayOrderFor(response.submitter)
+    return response.answer.map((index) => displayOrder[index]!)
+  }
+}
+
+registerQuestionType<OrderingSubmission, Ordering, OrderingResponse>(
+  QuestionFormat.OrderingFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      OrderingQuestion.fromOrderingSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new OrderingQuestion(text, body, timeLimit),
+    validateResponse: (response) => isArrayOf(response.answer, 'number'),
+    responseToString: (response) => response.answer.join(),
+  }
+)
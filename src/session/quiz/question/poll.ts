@@ -0,0 +1,257 @@
+import { ApiError } from 'api/error'
+import {
+  Poll,
+  PollChoice,
+  PollResponse,
+  PollSubmission,
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { isArrayOf, registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+
+export default class PollQuestion extends Question {
+  private _choices: PollChoice[] = []
+  private _multiple: boolean = false
+  private _broadcast: boolean = false
+
+  get choices(): PollChoice[] {
+    return this._choices
+  }
+
+  get multiple(): boolean {
+    return this._multiple
+  }
+
+  get broadcast(): boolean {
+    return this._broadcast
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.PollFormat,
+      choices: this.choices,
+      multiple: this.multiple,
+      broadcast: this.broadcast,
+    }
+  }
+
+  /**
+   * Polls have no correct answers
+   */
+  get correctAnswers(): string[] {
+    return []
+  }
+
+  /**
+   * The body of the Question as seen by participants
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.PollFormat,
+      choices: this.choices,
+      multiple: this.multiple,
+    }
+  }
+
+  override get isGraded(): boolean {
+    return false
+  }
+
+  /**
+   * The number of responses selecting each choice
+   */
+  override get statistics(): QuestionStatistics {
+    const choices = this.choices.map(() => 0)
+    this._responses.forEach((response) => {
+      if (response.type === QuestionFormat.PollFormat) {
+        this.selectionOf(response.answer).forEach((index) => {
+          choices[index] += 1
+        })
+      }
+    })
+    return {
+      type: QuestionFormat.PollFormat,
+      choices,
+    }
+  }
+
+  /**
+   * Parses and validates a PollQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (choices, whether to allow multiple choices and broadcast results)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The PollQuestion if parsed successfully, or errors
+   */
+  static fromPollSubmission(
+    text?: string,
+    body?: PollSubmission,
+    timeLimit?: Seconds
+  ): ResultType<PollQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    if (errors.length !== 0) {
+      return {
+        type: Result.Failure,
+        errors,
+      }
+    }
+
+    const choices = body!.choices as PollChoice[]
+    return {
+      type: Result.Success,
+      data: new PollQuestion(
+        text!,
+        {
+          type: QuestionFormat.PollFormat,
+          choices: choices.map((choice) => ({ text: choice.text })),
+          multiple: body!.multiple ?? false,
+          broadcast: body!.broadcast ?? false,
+        },
+        timeLimit!
+      ),
+    }
+  }
+
+  private static validateBody(body: PollSubmission): ApiError[] {
+    const errors = <ApiError[]>[]
+    const { choices } = body
+    if (
+      choices == null ||
+      choices.length < this.minPollChoices ||
+      choices.length > this.maxPollChoices
+    ) {
+      errors.push({
+        field: 'choices',
+        value: choices == null ? null : choices.length,
+      })
+    } else {
+      choices.forEach((choice, index) => {
+        if (choice.text == null || choice.text.length === 0) {
+          errors.push({
+            field: 'choices',
+            value: {
+              field: 'text',
+              index,
+              value: choice.text == null ? null : choice.text,
+            },
+          })
+        }
+      })
+    }
+
+    if (body.multiple != null && typeof body.multiple !== 'boolean') {
+      errors.push({
+        field: 'multiple',
+        value: null,
+      })
+    }
+
+    if (body.broadcast != null && typeof body.broadcast !== 'boolean') {
+      errors.push({
+        field: 'broadcast',
+        value: null,
+      })
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: Poll, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._choices = [...body.choices]
+    this._multiple = body.multiple
+    this._broadcast = body.broadcast
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.PollFormat) {
+      return 0
+    }
+
+    return this._frequency.get(this.selectionOf(response.answer).join()) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new PollQuestion(
+      this._text,
+      this.body as Poll,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  /**
+   * Responses to polls earn no points
+   */
+  protected gradeResponse(): number {
+    return 0
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.PollFormat) {
+      return
+    }
+
+    const selection = this.selectionOf(response.answer)
+    if (selection.length !== 0) {
+      const key = selection.join()
+      const prev = this._frequency.get(key) ?? 0
+      this._frequency = this._frequency.set(key, prev + 1)
+    }
+  }
+
+  /**
+   * Gets the distinct, valid choice indices in a response, in order.
+   * Responses selecting several choices when only one is allowed select
+   * nothing.
+   */
+  private selectionOf(answer: number[]): number[] {
+    const selection = answer
+      .filter(
+        (index, position) =>
+          Number.isInteger(index) &&
+          index >= 0 &&
+          index < this.choices.length &&
+          answer.indexOf(index) === position
+      )
+      .sort((a, b) => a - b)
+    return this.multiple || selection.length <= 1 ? selection : []
+  }
+}
+
+registerQuestionType<PollSubmission, Poll, PollResponse>(
+  QuestionFormat.PollFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      PollQuestion.fromPollSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new PollQuestion(text, body, timeLimit),
+    validateResponse: (response) => isArrayOf(response.answer, 'number'),
+    responseToString: (response) =>
+      [...response.answer].sort((a, b) => a - b).join(),
+  }
+)
@@ -1,12 +1,43 @@
 import { ApiError } from 'api/error'
+import * as api from 'api/feedback'
 import {
   QuestionBodyType,
   QuestionData,
+  QuestionView,
+  QuestionStatistics,
+  QuestionViewBodyType,
   ResponseType,
   Seconds,
 } from 'api/question'
 import { List, Map } from 'immutable'
+import { nanoid } from 'nanoid'
 import { Feedback } from 'session/quiz/question/feedback'
+import { seededRandom, shuffle } from './shuffle'
+
+/**
+ * Question state in a form that can be written as JSON. Optional fields
+ * are missing from Questions saved by older versions of the server.
+ */
+export interface SerializedQuestion {
+  text: string
+  body: QuestionBodyType
+  timeLimit: Seconds
+  totalPoints: number
+  explanation?: string | null
+  seed?: string
+  index: number
+  feedback: { [user: string]: api.Feedback }
+  responses: { [user: string]: ResponseType }
+  points?: { [user: string]: number }
+  frequency: { [response: string]: number }
+  firstCorrect: string | null
+  isStarted: boolean
+  hasEnded: boolean
+  /**
+   * Time the Question was started, in milliseconds since the epoch
+   */
+  startedAt: number | null
+}
 
 /**
  * A varying-type Question, that could be multiple choice or fill-in
@@ -23,6 +54,26 @@ export abstract class Question {
   static readonly minFillInChoices: number = 1
   static readonly maxFillInChoices: number = 3
 
+  static readonly maxFillInBlanks: number = 10
+
+  static readonly minMultiSelectChoices: number = 2
+  static readonly maxMultiSelectChoices: number = 8
+
+  static readonly minOrderingItems: number = 2
+  static readonly maxOrderingItems: number = 10
+
+  static readonly minMatchingPairs: number = 2
+  static readonly maxMatchingPairs: number = 10
+
+  static readonly minPollChoices: number = 2
+  static readonly maxPollChoices: number = 8
+
+  static readonly defaultFreeTextLength: number = 280
+  static readonly maxFreeTextLength: number = 2000
+
+  static readonly minScaleSize: number = 2
+  static readonly maxScaleSize: number = 11
+
   /**
    * The index of this Question in its Quiz
    */
@@ -33,10 +84,23 @@ export abstract class Question {
   protected _timeLimit: Seconds = 0
   public onTimeout?: Function
 
+  /**
+   * Why the correct answers are correct, revealed when the Question ends
+   */
+  public explanation: string | null = null
+
+  /**
+   * Random text that decides the order each participant sees shuffled
+   * choices in, so the order cannot be worked out from their name
+   */
+  protected _seed: string = nanoid()
+
   protected _feedback = Map<string, Feedback>() // keyed on username
   protected _responses = Map<string, ResponseType>() // keyed on username
+  protected _points = Map<string, number>() // keyed on username
   protected _frequency = Map<string, number>() // keyed on stringified response data
   protected _firstCorrect: string | undefined
+  protected _startedAt: number | undefined
   protected _isStarted: boolean = false
   protected _hasEnded: boolean = false
 
@@ -49,6 +113,13 @@ export abstract class Question {
     return this._totalPoints
   }
 
+  /**
+   * The most points that one response can earn
+   */
+  get maxPoints(): number {
+    return this.totalPoints
+  }
+
   /**
    * The text of the Question, or what is being asked
    */
@@ -72,6 +143,33 @@ export abstract class Question {
       body: this.body!,
       totalPoints: this.totalPoints,
       timeLimit: this.timeLimit,
+      explanation: this.explanation,
+    }
+  }
+
+  /**
+   * Returns the data to transmit for this Question to participants, which
+   * excludes the answers
+   */
+  get view(): QuestionView {
+    return {
+      text: this.text,
+      body: this.viewBody,
+      totalPoints: this.totalPoints,
+      timeLimit: this.timeLimit,
+    }
+  }
+
+  /**
+   * Returns the data to transmit for this Question to one participant,
+   * which differs from `view` for formats that show each participant
+   * their own order
+   * @param user name of the participant
+   */
+  viewFor(user: string): QuestionView {
+    return {
+      ...this.view,
+      body: this.viewBodyFor(user),
     }
   }
 
@@ -80,6 +178,32 @@ export abstract class Question {
    */
   abstract get body(): QuestionBodyType
 
+  /**
+   * The body of the Question as seen by participants
+   */
+  abstract get viewBody(): QuestionViewBodyType
+
+  /**
+   * The text of each answer that earns points
+   */
+  abstract get correctAnswers(): string[]
+
+  /**
+   * Statistics about the responses, for formats where the frequency of
+   * each distinct response does not describe the results well
+   */
+  get statistics(): QuestionStatistics | null {
+    return null
+  }
+
+  /**
+   * True if responses to the Question earn points. Ungraded Questions are
+   * left out of the Session scores.
+   */
+  get isGraded(): boolean {
+    return true
+  }
+
   /**
    * True if the Question has started (been sent to users), so it will accept responses
    */
@@ -108,6 +232,22 @@ export abstract class Question {
     return this._responses.valueSeq().toList()
   }
 
+  /**
+   * The time left to respond to the Question, which is the whole time limit
+   * before it starts and zero after it ends
+   */
+  get timeRemaining(): Seconds {
+    if (!this._isStarted) {
+      return this._timeLimit
+    }
+    if (this._hasEnded) {
+      return 0
+    }
+    const MS_TO_SEC = 1 / 1000
+    const elapsed = (Date.now() - (this._startedAt ?? Date.now())) * MS_TO_SEC
+    return Math.max(0, Math.floor(this._timeLimit - elapsed))
+  }
+
   /**
    * The total number of responses
    */
@@ -147,15 +287,42 @@ export abstract class Question {
    */
   start() {
     this._isStarted = true
+    this._startedAt = Date.now()
 
     const SEC_TO_MS = 1000
+    this.scheduleTimeout(this.timeLimit * SEC_TO_MS)
+  }
+
+  /**
+   * Restarts the timeout of a restored Question that was started but not
+   * ended, so that it ends when it would have originally
+   */
+  resume() {
+    if (!this._isStarted || this._hasEnded) {
+      return
+    }
+
+    const SEC_TO_MS = 1000
+    const elapsed = Date.now() - (this._startedAt ?? Date.now())
+    this.scheduleTimeout(Math.max(0, this.timeLimit * SEC_TO_MS - elapsed))
+  }
+
+  /**
+   * Stops the timeout of a started Question without ending it, such as
+   * when the server shuts down. `resume` restarts it.
+   */
+  pause() {
+    clearTimeout(this.timeout)
+  }
+
+  private scheduleTimeout(ms: number) {
     this.timeout = setTimeout(() => {
       this.end()
 
       if (this.onTimeout != null) {
         this.onTimeout()
       }
-    }, this.timeLimit * SEC_TO_MS)
+    }, ms)
   }
 
   /**
@@ -172,7 +339,8 @@ export abstract class Question {
    * Adds a Response if its type is the same as the Question
    * @param response Response to add
    * @returns the grade of the Response (point value earned)
-   * @throws Error thrown if user already responded or if the question has ended or has not started
+   * @throws Error thrown if user already responded, if the question has ended or has not started,
+   * or if the Response does not answer the Question
    */
   addResponse(response: ResponseType): number {
     if (!this._isStarted) {
@@ -184,8 +352,12 @@ export abstract class Question {
     if (this._responses.has(response.submitter)) {
       throw new Error('Already responded')
     }
+    if (!this.acceptsResponse(response)) {
+      throw new Error('Response does not answer the Question')
+    }
     this._responses = this._responses.set(response.submitter, response)
     const points = this.gradeResponse(response)
+    this._points = this._points.set(response.submitter, points)
     if (points > 0 && this._firstCorrect == null) {
       this._firstCorrect = response.submitter
     }
@@ -193,6 +365,34 @@ export abstract class Question {
     return points
   }
 
+  /**
+   * Gets the points a user earned for their Response
+   * @param user name of the user
+   * @returns the points earned, or undefined if they have not responded
+   */
+  pointsFor(user: string): number | undefined {
+    return this._points.get(user)
+  }
+
+  /**
+   * Checks whether a user answered correctly, which takes full points
+   * @param user name of the user
+   * @returns true if the user earned the most points the Question gives
+   */
+  isCorrectFor(user: string): boolean {
+    const points = this.pointsFor(user) ?? 0
+    return points > 0 && points >= this.maxPoints
+  }
+
+  /**
+   * Gets the Response submitted by a user
+   * @param user name of the user
+   * @returns the user's Response, or undefined if they have not responded
+   */
+  responseFrom(user: string): ResponseType | undefined {
+    return this._responses.get(user)
+  }
+
   /**
    * Adds user submitted Feedback to this Question
    * @param user person submitting Feedback
@@ -216,6 +416,16 @@ export abstract class Question {
     return this.frequencyOf(response) / this.numResponses
   }
 
+  /**
+   * Converts a Response to refer to the Question's own answers, for
+   * formats where a participant's view differs from the body
+   * @param response a Response to the Question
+   * @returns the Response as if the participant saw the body
+   */
+  canonicalResponse(response: ResponseType): ResponseType {
+    return response
+  }
+
   /**
    * Returns the frequency of one Response's answer
    * @param response The Response to lookup
@@ -228,6 +438,116 @@ export abstract class Question {
    */
   abstract clone(): Question
 
+  /**
+   * Copies the state shared by every format of Question, such as the
+   * responses and whether it has started, for `clone`
+   * @param copy the Question to copy the state to
+   */
+  protected copyStateTo(copy: Question) {
+    copy.index = this.index
+    copy.onTimeout = this.onTimeout
+    copy.explanation = this.explanation
+    copy._seed = this._seed
+    copy._totalPoints = this._totalPoints
+    copy._feedback = this._feedback
+    copy._responses = this._responses
+    copy._points = this._points
+    copy._frequency = this._frequency
+    copy._firstCorrect = this._firstCorrect
+    copy._startedAt = this._startedAt
+    copy._isStarted = this._isStarted
+    copy._hasEnded = this._hasEnded
+  }
+
+  /**
+   * Converts the Question to a form that can be written as JSON
+   * @returns the serialized Question
+   */
+  serialize(): SerializedQuestion {
+    return {
+      text: this.text,
+      body: this.body,
+      timeLimit: this.timeLimit,
+      totalPoints: this.totalPoints,
+      explanation: this.explanation,
+      seed: this._seed,
+      index: this.index,
+      feedback: this._feedback
+        .map((feedback) => ({
+          rating: feedback.rating,
+          message: feedback.message,
+        }))
+        .toObject(),
+      responses: this._responses.toObject(),
+      points: this._points.toObject(),
+      frequency: this._frequency.toObject(),
+      firstCorrect: this._firstCorrect ?? null,
+      isStarted: this._isStarted,
+      hasEnded: this._hasEnded,
+      startedAt: this._startedAt ?? null,
+    }
+  }
+
+  /**
+   * Restores the responses and progress of this Question from serialized data.
+   * Does not restart the timeout of an in-progress Question (see `resume`).
+   * @param data the serialized Question, with a body matching this Question
+   */
+  restore(data: SerializedQuestion) {
+    this.index = data.index
+    this._totalPoints = data.totalPoints
+    this.explanation = data.explanation ?? null
+    this._seed = data.seed ?? '' // the order older versions showed
+    this._feedback = Map(data.feedback).map(
+      (feedback) => new Feedback(feedback.rating, feedback.message)
+    )
+    this._responses = Map(data.responses)
+    this._points =
+      data.points != null
+        ? Map(data.points)
+        : this._responses.map((response) => this.gradeResponse(response))
+    this._frequency = Map(data.frequency)
+    this._firstCorrect = data.firstCorrect ?? undefined
+    this._isStarted = data.isStarted
+    this._hasEnded = data.hasEnded
+    this._startedAt = data.startedAt ?? undefined
+  }
+
+  protected viewBodyFor(user: string): QuestionViewBodyType {
+    return this.viewBody
+  }
+
+  /**
+   * Checks that a Response answers this Question, for formats where a
+   * Response of the right shape can still refer to something missing
+   * @param response a Response to the Question
+   * @returns true if the Response can be graded
+   */
+  protected acceptsResponse(response: ResponseType): boolean {
+    return true
+  }
+
+  /**
+   * The order a participant sees a number of shuffled items in, which is
+   * the same every time for the same participant
+   * @param user name of the participant
+   * @param size the number of items
+   * @returns indices of the items in the order the participant sees them
+   */
+  protected shuffledOrderFor(user: string, size: number): number[] {
+    return shuffle([...Array(size).keys()], this.randomFor(user))
+  }
+
+  /**
+   * Creates a source of random numbers that gives the same sequence every
+   * time for the same participant
+   * @param user name of the participant
+   * @returns a function returning numbers in [0, 1)
+   */
+  protected randomFor(user: string): () => number {
+    return seededRandom(`${this._seed}${this.text}\n${user}`)
+  }
+
   protected abstract updateFrequency(response: ResponseType): void
 
   protected abstract gradeResponse(response: ResponseType): number
@@ -0,0 +1,86 @@
+import { ApiError } from 'api/error'
+import {
+  QuestionBodyType,
+  QuestionSubmissionBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { ResultType } from 'result'
+import Question from './question'
+
+/**
+ * How the server handles one format of Question. The type creates the
+ * Question, and the Question grades responses (`gradeResponse`) and is
+ * serialized by `Question.serialize`, then recreated with `fromBody`.
+ *
+ * Formats registered outside `QuestionFormat` add their data to
+ * `QuestionFormatTypes`, which makes their bodies and responses part of
+ * `QuestionBodyType` and `ResponseType`. They are left out of QTI
+ * packages.
+ */
+export interface QuestionType<
+  Submission = QuestionSubmissionBodyType,
+  Body = QuestionBodyType,
+  Response = ResponseType
+> {
+  /**
+   * Parses and validates a Question from user submitted data
+   */
+  fromSubmission(
+    text?: string,
+    body?: Submission,
+    timeLimit?: Seconds
+  ): ResultType<Question, ApiError>
+
+  /**
+   * Creates a Question from a body that has already been validated, such
+   * as one that was serialized
+   */
+  fromBody(text: string, body: Body, timeLimit: Seconds): Question
+
+  /**
+   * Checks that the answer of a Response has the right shape
+   */
+  validateResponse(response: Partial<Response>): boolean
+
+  /**
+   * Describes the answer of a Response for results and statistics
+   */
+  responseToString(response: Response): string
+}
+
+// Keyed on format. The shape of each type's data is only known to the
+// type itself.
+const types = new Map<number, QuestionType<unknown, unknown, unknown>>()
+
+/**
+ * Adds a format of Question that sessions can use
+ * @param format the `type` of the Question bodies and Responses
+ * @param type how Questions of the format are created and answered
+ * @throws Error thrown if the format is already registered
+ */
+export function registerQuestionType<Submission, Body, Response>(
+  format: number,
+  type: QuestionType<Submission, Body, Response>
+) {
+  if (types.has(format)) {
+    throw new Error(`Question format ${format} is already registered`)
+  }
+  types.set(format, type)
+}
+
+/**
+ * Looks up a registered format of Question
+ * @param format the `type` of the Question body or Response
+ * @returns the QuestionType, or undefined if the format is not registered
+ */
+export function questionTypeOf(format?: number): QuestionType | undefined {
+  return format == null ? undefined : types.get(format)
+}
+
+/**
+ * Checks that the answer of a Response is a list of one primitive type
+ */
+export function isArrayOf(answer: unknown, type: 'number' | 'string'): boolean {
+  return Array.isArray(answer) && answer.every((item) => typeof item === type)
+}
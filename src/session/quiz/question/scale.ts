@@ -0,0 +1,269 @@
+import { ApiError } from 'api/error'
+import {
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionStatistics,
+  QuestionViewBodyType,
+  ResponseType,
+  Scale,
+  ScaleResponse,
+  ScaleSubmission,
+  Seconds,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+
+export default class ScaleQuestion extends Question {
+  private _min: number = 1
+  private _max: number = 5
+  private _minLabel: string | null = null
+  private _maxLabel: string | null = null
+
+  get min(): number {
+    return this._min
+  }
+
+  get max(): number {
+    return this._max
+  }
+
+  get minLabel(): string | null {
+    return this._minLabel
+  }
+
+  get maxLabel(): string | null {
+    return this._maxLabel
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.ScaleFormat,
+      min: this.min,
+      max: this.max,
+      minLabel: this.minLabel,
+      maxLabel: this.maxLabel,
+    }
+  }
+
+  /**
+   * Rating scales have no correct answers
+   */
+  get correctAnswers(): string[] {
+    return []
+  }
+
+  /**
+   * The body of the Question as seen by participants
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.ScaleFormat,
+      min: this.min,
+      max: this.max,
+      minLabel: this.minLabel,
+      maxLabel: this.maxLabel,
+    }
+  }
+
+  override get isGraded(): boolean {
+    return false
+  }
+
+  /**
+   * The mean, median, and distribution of ratings
+   */
+  override get statistics(): QuestionStatistics {
+    const distribution = [...Array(this.max - this.min + 1)].map(
+      (_, index) => this._frequency.get((this.min + index).toString()) ?? 0
+    )
+    const ratings = distribution.flatMap((count, index) =>
+      Array<number>(count).fill(this.min + index)
+    )
+    const middle = Math.floor(ratings.length / 2)
+    return {
+      type: QuestionFormat.ScaleFormat,
+      mean:
+        ratings.length === 0
+          ? null
+          : ratings.reduce((total, rating) => total + rating, 0) /
+            ratings.length,
+      median:
+        ratings.length === 0
+          ? null
+          : ratings.length % 2 === 0
+          ? (ratings[middle - 1]! + ratings[middle]!) / 2
+          : ratings[middle]!,
+      distribution,
+    }
+  }
+
+  /**
+   * Parses and validates a ScaleQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (lowest and highest ratings and their labels)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The ScaleQuestion if parsed successfully, or errors
+   */
+  static fromScaleSubmission(
+    text?: string,
+    body?: ScaleSubmission,
+    timeLimit?: Seconds
+  ): ResultType<ScaleQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    return errors.length === 0
+      ? {
+          type: Result.Success,
+          data: new ScaleQuestion(
+            text!,
+            {
+              type: QuestionFormat.ScaleFormat,
+              min: body!.min!,
+              max: body!.max!,
+              minLabel: body!.minLabel || null,
+              maxLabel: body!.maxLabel || null,
+            },
+            timeLimit!
+          ),
+        }
+      : {
+          type: Result.Failure,
+          errors,
+        }
+  }
+
+  private static validateBody(body: ScaleSubmission): ApiError[] {
+    const errors = <ApiError[]>[]
+    const { min, max } = body
+    if (!Number.isInteger(min)) {
+      errors.push({
+        field: 'min',
+        value: min == null ? null : min,
+      })
+    }
+
+    if (!Number.isInteger(max)) {
+      errors.push({
+        field: 'max',
+        value: max == null ? null : max,
+      })
+    } else if (
+      Number.isInteger(min) &&
+      (max! - min! + 1 < this.minScaleSize ||
+        max! - min! + 1 > this.maxScaleSize)
+    ) {
+      errors.push({
+        field: 'max',
+        value: max!,
+      })
+    }
+
+    if (body.minLabel != null && typeof body.minLabel !== 'string') {
+      errors.push({
+        field: 'minLabel',
+        value: null,
+      })
+    }
+
+    if (body.maxLabel != null && typeof body.maxLabel !== 'string') {
+      errors.push({
+        field: 'maxLabel',
+        value: null,
+      })
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: Scale, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._min = body.min
+    this._max = body.max
+    this._minLabel = body.minLabel
+    this._maxLabel = body.maxLabel
+  }
+
+  /**
+   * Adds a Response if its type is the same as the Question
+   * @param response Response to add
+   * @returns the grade of the Response, which is always 0
+   * @throws Error thrown if the rating is not on the scale, or for any
+   * reason `Question.addResponse` throws
+   */
+  override addResponse(response: ResponseType): number {
+    if (
+      response.type === QuestionFormat.ScaleFormat &&
+      (!Number.isInteger(response.answer) ||
+        response.answer < this.min ||
+        response.answer > this.max)
+    ) {
+      throw new Error('Rating is not on the scale')
+    }
+    return super.addResponse(response)
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.ScaleFormat) {
+      return 0
+    }
+
+    return this._frequency.get(response.answer.toString()) ?? 0
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new ScaleQuestion(
+      this._text,
+      this.body as Scale,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  /**
+   * Responses to rating scales earn no points
+   */
+  protected gradeResponse(): number {
+    return 0
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.ScaleFormat) {
+      return
+    }
+
+    const rating = response.answer.toString()
+    const prev = this._frequency.get(rating) ?? 0
+    this._frequency = this._frequency.set(rating, prev + 1)
+  }
+}
+
+registerQuestionType<ScaleSubmission, Scale, ScaleResponse>(
+  QuestionFormat.ScaleFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      ScaleQuestion.fromScaleSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new ScaleQuestion(text, body, timeLimit),
+    validateResponse: (response) => Number.isFinite(response.answer),
+    responseToString: (response) => response.answer.toString(),
+  }
+)
@@ -0,0 +1,59 @@
+/**
+ * Creates a shuffled copy of an array
+ * @param items the items to shuffle
+ * @param random source of random numbers in [0, 1)
+ * @returns the shuffled items
+ */
+export function shuffle<T>(
+  items: T[],
+  random: () => number = Math.random
+): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; --i) {
+    const j = Math.floor(random() * (i + 1))
+    const item = shuffled[i]!
+    shuffled[i] = shuffled[j]!
+    shuffled[j] = item
+  }
+  return shuffled
+}
+
+/**
+ * Creates an order to show items in that is never their original order
+ * when there is more than one item
+ * @param size the number of items
+ * @param random source of random numbers in [0, 1)
+ * @returns indices of the items in the order to show them
+ */
+export function shuffledOrder(
+  size: number,
+  random: () => number = Math.random
+): number[] {
+  const order = shuffle([...Array(size).keys()], random)
+  if (order.every((item, index) => item === index)) {
+    order.push(order.shift()!)
+  }
+  return order
+}
+
+/**
+ * Creates a source of random numbers that gives the same sequence every
+ * time it is created with the same seed
+ * @param seed text that determines the sequence
+ * @returns a function returning numbers in [0, 1)
+ */
+export function seededRandom(seed: string): () => number {
+  // FNV-1a hash of the seed
+  let state = 2166136261
+  for (let i = 0; i < seed.length; ++i) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -1,16 +1,27 @@
 import { Result, ResultType } from 'result'
 import { ApiError } from 'api/error'
-import FillInQuestion from './fillin'
-import MultipleChoiceQuestion from './multiplechoice'
-import Question from './question'
+import Question, { SerializedQuestion } from './question'
+import { questionTypeOf } from './registry'
 import {
   QuestionBodyType,
-  QuestionFormat,
   QuestionSubmission,
   QuestionSubmissionBodyType,
   Seconds,
 } from 'api/question'
 
+// The built-in formats register themselves when loaded
+import './fillin'
+import './fillinblanks'
+import './freetext'
+import './matching'
+import './multiplechoice'
+import './multiselect'
+import './numeric'
+import './ordering'
+import './poll'
+import './scale'
+import './truefalse'
+
 /**
  * Parses a Question from client submitted data
  * @param text The main text of the Question (what is used by responders to determine answer)
@@ -39,7 +50,7 @@ export function validateSubmission(
       type: Result.Failure,
       errors,
     }
-  } else if (body.type == null || !(body.type in QuestionFormat)) {
+  } else if (questionTypeOf(body.type) == null) {
     errors.push({
       field: 'body',
       value: body.type == null ? null : body.type,
@@ -69,22 +80,50 @@ export function validateSubmission(
 export function fromSubmission(
   submission: QuestionSubmission
 ): ResultType<Question, ApiError> {
-  const { text, body, timeLimit } = submission
-  if (body != null && body.type != null && body.type in QuestionFormat) {
-    switch (body.type) {
-      case QuestionFormat.MultipleChoiceFormat:
-        return MultipleChoiceQuestion.fromMultipleChoiceSubmission(
-          text,
-          body,
-          timeLimit
-        )
-      case QuestionFormat.FillInFormat:
-        return FillInQuestion.fromFillInSubmission(text, body, timeLimit)
+  const { text, body, timeLimit, explanation } = submission
+  const type = questionTypeOf(body?.type)
+  if (type == null) {
+    return {
+      type: Result.Failure,
+      errors: [{ field: 'body', value: null }],
+    }
+  }
+
+  const result = type.fromSubmission(text, body, timeLimit)
+  const errors = validateExplanation(explanation)
+  if (result.type === Result.Failure || errors.length > 0) {
+    return {
+      type: Result.Failure,
+      errors:
+        result.type === Result.Failure ? result.errors.concat(errors) : errors,
     }
   }
 
-  return {
-    type: Result.Failure,
-    errors: [{ field: 'body', value: null }],
+  result.data.explanation = explanation || null
+  return result
+}
+
+function validateExplanation(explanation?: string): ApiError[] {
+  if (explanation != null && typeof explanation !== 'string') {
+    return [{ field: 'explanation', value: null }]
+  }
+  return []
+}
+
+/**
+ * Recreates a Question, including its responses and progress, from data
+ * previously returned by `Question.serialize`.
+ * @param data The serialized Question
+ * @returns the Question, or undefined if the body has an unknown format
+ */
+export function fromSerialized(data: SerializedQuestion): Question | undefined {
+  const { text, body, timeLimit } = data
+  const type = questionTypeOf(body.type)
+  if (type == null) {
+    return undefined
   }
+
+  const question = type.fromBody(text, body, timeLimit)
+  question.restore(data)
+  return question
 }
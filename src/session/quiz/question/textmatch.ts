@@ -0,0 +1,218 @@
+import { FillInAnswer, TextMatchMode } from 'api/question'
+
+/**
+ * The longest response that can match an answer by edit distance or by
+ * pattern. Those take time that grows with the response, so longer
+ * responses never match them.
+ */
+export const maxResponseLength = 100
+
+/**
+ * The longest answer text that can be used as a pattern
+ */
+export const maxPatternLength = 100
+
+/**
+ * The most quantifiers and alternatives inside groups that a pattern can
+ * have. Each one multiplies the ways a pattern can backtrack.
+ */
+export const maxPatternBranches = 4
+
+/**
+ * Checks whether a response matches an answer, using the answer's
+ * matching mode
+ * @param response the text of the response
+ * @param answer the answer
+ * @returns true if the response matches
+ */
+export function matchesAnswer(response: string, answer: FillInAnswer): boolean {
+  const mode = answer.match ?? TextMatchMode.Exact
+  if (
+    (mode === TextMatchMode.Pattern || mode === TextMatchMode.EditDistance) &&
+    response.length > maxResponseLength
+  ) {
+    return false
+  }
+
+  if (mode === TextMatchMode.Pattern) {
+    return patternOf(answer.text)?.test(normalize(response, mode)) ?? false
+  }
+
+  const text = normalize(response, mode)
+  const expected = normalize(answer.text, mode)
+  if (mode === TextMatchMode.EditDistance) {
+    return (
+      editDistance(text, expected) <=
+      (answer.maxDistance ?? defaultMaxDistance(expected))
+    )
+  }
+  return text === expected
+}
+
+/**
+ * Finds the answer a response matches, preferring the answer worth the
+ * most points if it matches several
+ * @param response the text of the response
+ * @param answers the accepted answers
+ * @returns the matched answer, or undefined if none match
+ */
+export function findMatch(
+  response: string,
+  answers: Iterable<FillInAnswer>
+): FillInAnswer | undefined {
+  let match: FillInAnswer | undefined
+  for (const answer of answers) {
+    if (
+      matchesAnswer(response, answer) &&
+      (match == null || answer.points > match.points)
+    ) {
+      match = answer
+    }
+  }
+  return match
+}
+
+/**
+ * Checks whether text is a valid regular expression for an answer
+ * matched by `TextMatchMode.Pattern`. Responses come from any user, so
+ * patterns that can backtrack for a long time are not valid: patterns
+ * that repeat a group containing a quantifier or an alternative, that
+ * use backreferences or lookarounds, or that have too many branches.
+ */
+export function isValidPattern(text: string): boolean {
+  return (
+    text.length <= maxPatternLength &&
+    patternOf(text) != null &&
+    isSafePattern(text)
+  )
+}
+
+/**
+ * The most edits allowed when an answer does not set `maxDistance`,
+ * which is one for every five characters of the answer
+ */
+function defaultMaxDistance(text: string): number {
+  return Math.max(1, Math.floor(text.length / 5))
+}
+
+function patternOf(text: string): RegExp | undefined {
+  try {
+    return new RegExp(`^(?:${text})$`, 'iu')
+  } catch {
+    return undefined
+  }
+}
+
+interface PatternGroup {
+  /**
+   * Whether the group contains a quantifier or an alternative
+   */
+  branches: boolean
+}
+
+/**
+ * Scans a pattern that is known to be a valid Unicode regular expression
+ * for the constructs that `isValidPattern` rejects
+ */
+function isSafePattern(text: string): boolean {
+  const root: PatternGroup = { branches: false }
+  const groups: PatternGroup[] = []
+  let branches = 0
+  let closed: PatternGroup | undefined // the group just before a quantifier
+
+  for (let i = 0; i < text.length; ++i) {
+    const char = text[i]!
+    const group = groups[groups.length - 1]
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})/.exec(text.slice(i))
+    if (quantifier != null) {
+      if (closed?.branches) {
+        return false
+      }
+      ;(group ?? root).branches = true
+      ++branches
+      i += quantifier[0]!.length - 1
+      if (text[i + 1] === '?') {
+        ++i // lazy quantifier
+      }
+      closed = undefined
+      continue
+    }
+
+    closed = undefined
+    if (char === '\\') {
+      const next = text[i + 1] ?? ''
+      if (/[1-9k]/.test(next)) {
+        return false // backreference
+      }
+      i +=
+        /[pPu]/.test(next) && text[i + 2] === '{' ? text.indexOf('}', i) - i : 1
+    } else if (char === '[') {
+      while (text[++i] !== ']') {
+        if (text[i] === '\\') {
+          ++i
+        }
+      }
+    } else if (char === '(') {
+      if (/^\?<?[=!]/.test(text.slice(i + 1))) {
+        return false // lookaround
+      }
+      if (text[i + 1] === '?') {
+        i = text[i + 2] === '<' ? text.indexOf('>', i) : i + 2 // (?<name> or (?:
+      }
+      groups.push({ branches: false })
+    } else if (char === ')') {
+      closed = groups.pop()
+      if (closed?.branches) {
+        ;(groups[groups.length - 1] ?? root).branches = true
+      }
+    } else if (char === '|' && group != null) {
+      group.branches = true
+      ++branches
+    }
+  }
+  return branches <= maxPatternBranches
+}
+
+/**
+ * Removes the differences that a matching mode ignores. Patterns are
+ * matched against trimmed responses.
+ */
+function normalize(text: string, mode: TextMatchMode): string {
+  const level = mode === TextMatchMode.Pattern ? TextMatchMode.Trimmed : mode
+  let normalized = text.toLowerCase()
+  if (level >= TextMatchMode.Trimmed) {
+    normalized = normalized.trim().replace(/\s+/g, ' ')
+  }
+  if (level >= TextMatchMode.Normalized) {
+    normalized = normalized.normalize('NFKC')
+  }
+  if (level >= TextMatchMode.AccentInsensitive) {
+    normalized = normalized.normalize('NFD').replace(/\p{M}/gu, '')
+  }
+  return normalized
+}
+
+/**
+ * Finds the Levenshtein distance between two strings, counting
+ * characters rather than UTF-16 code units
+ */
+function editDistance(a: string, b: string): number {
+  const source = [...a]
+  const target = [...b]
+  let previous = target.map((_, index) => index + 1)
+  previous.unshift(0)
+  source.forEach((char, i) => {
+    const current = [i + 1]
+    target.forEach((other, j) => {
+      current.push(
+        Math.min(
+          previous[j + 1]! + 1,
+          current[j]! + 1,
+          previous[j]! + (char === other ? 0 : 1)
+        )
+      )
+    })
+    previous = current
+  })
+  return previous[target.length]!
+}
@@ -0,0 +1,161 @@
+import { ApiError } from 'api/error'
+import {
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+  TrueFalse,
+  TrueFalseResponse,
+  TrueFalseSubmission,
+} from 'api/question'
+import { Result, ResultType } from 'result'
+import Question from './question'
+import { registerQuestionType } from './registry'
+import { validateSubmission } from './submission'
+
+export default class TrueFalseQuestion extends Question {
+  private _answer: boolean = true
+
+  get answer(): boolean {
+    return this._answer
+  }
+
+  /**
+   * The body of the Question
+   */
+  get body(): QuestionBodyType {
+    return {
+      type: QuestionFormat.TrueFalseFormat,
+      answer: this.answer,
+      points: this.totalPoints,
+    }
+  }
+
+  get correctAnswers(): string[] {
+    return [this.answer.toString()]
+  }
+
+  /**
+   * The body of the Question without the answer
+   */
+  get viewBody(): QuestionViewBodyType {
+    return {
+      type: QuestionFormat.TrueFalseFormat,
+    }
+  }
+
+  /**
+   * Parses and validates a TrueFalseQuestion from user submitted data that potentially contains
+   * missing fields.
+   * @param text Main text of the submission
+   * @param body Question details (correct answer, points)
+   * @param timeLimit How long users have to answer the Question
+   * @returns The TrueFalseQuestion if parsed successfully, or errors
+   */
+  static fromTrueFalseSubmission(
+    text?: string,
+    body?: TrueFalseSubmission,
+    timeLimit?: Seconds
+  ): ResultType<TrueFalseQuestion, ApiError> {
+    const result = validateSubmission(text, body, timeLimit)
+    if (result.type === Result.Failure) {
+      return result
+    }
+
+    let errors = this.validateBody(body!)
+    errors = errors.concat(super.validateQuestionText(text!))
+    errors = errors.concat(super.validateQuestionTimeLimit(timeLimit!))
+
+    return errors.length === 0
+      ? {
+          type: Result.Success,
+          data: new TrueFalseQuestion(text!, body as TrueFalse, timeLimit!),
+        }
+      : {
+          type: Result.Failure,
+          errors,
+        }
+  }
+
+  private static validateBody(body: TrueFalseSubmission): ApiError[] {
+    let errors = <ApiError[]>[]
+    if (typeof body.answer !== 'boolean') {
+      errors.push({
+        field: 'answer',
+        value: null,
+      })
+    }
+
+    if (body.points == null) {
+      errors.push({
+        field: 'points',
+        value: null,
+      })
+    } else {
+      errors = errors.concat(super.validateQuestionPoints(body.points))
+    }
+
+    return errors
+  }
+
+  constructor(text: string, body: TrueFalse, timeLimit: Seconds) {
+    super(text, timeLimit)
+
+    this._answer = body.answer
+    this._totalPoints = body.points
+    this._frequency = this._frequency.set('true', 0).set('false', 0)
+  }
+
+  frequencyOf(response: ResponseType): number {
+    if (response.type !== QuestionFormat.TrueFalseFormat) {
+      return 0
+    }
+
+    return this._frequency.get(response.answer.toString())!
+  }
+
+  /**
+   * Creates a copy of the Question
+   * @returns the copy of the Question
+   */
+  clone(): Question {
+    const copy = new TrueFalseQuestion(
+      this._text,
+      this.body as TrueFalse,
+      this._timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  protected gradeResponse(response: ResponseType): number {
+    if (response.type !== QuestionFormat.TrueFalseFormat) {
+      return 0
+    }
+
+    return response.answer === this.answer ? this.totalPoints : 0
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    if (response.type !== QuestionFormat.TrueFalseFormat) {
+      return
+    }
+
+    const answer = response.answer.toString()
+    const prev = this._frequency.get(answer)!
+    this._frequency = this._frequency.set(answer, prev + 1)
+  }
+}
+
+registerQuestionType<TrueFalseSubmission, TrueFalse, TrueFalseResponse>(
+  QuestionFormat.TrueFalseFormat,
+  {
+    fromSubmission: (text, body, timeLimit) =>
+      TrueFalseQuestion.fromTrueFalseSubmission(text, body, timeLimit),
+    fromBody: (text, body, timeLimit) =>
+      new TrueFalseQuestion(text, body, timeLimit),
+    validateResponse: (response) => typeof response.answer === 'boolean',
+    responseToString: (response) => response.answer.toString(),
+  }
+)
@@ -0,0 +1,71 @@
+/**
+ * Common English words left out of word counts
+ */
+const stopWords = new Set(
+  [
+    'a about above after again against all am an and any are as at be',
+    'because been before being below between both but by can could did',
+    'do does doing down during each few for from further had has have',
+    'having he her here hers herself him himself his how i if in into',
+    'is it its itself just me more most my myself no nor not now of off',
+    'on once only or other our ours ourselves out over own same she',
+    'should so some such than that the their theirs them themselves',
+    'then there these they this those through to too under until up',
+    'very was we were what when where which while who whom why will',
+    'with would you your yours yourself yourselves',
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+/**
+ * A word from a response and the stem it is counted under
+ */
+export interface NormalizedWord {
+  word: string
+  stem: string
+}
+
+/**
+ * Splits text into lowercase words, leaving out stop words
+ * @param text the text
+ * @returns the words in the order they appear, with their stems
+ */
+export function normalizeWords(text: string): NormalizedWord[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu) ?? [])
+    .map((word) => word.replace(/'s$/, ''))
+    .filter((word) => !stopWords.has(word))
+    .map((word) => ({ word, stem: stem(word) }))
+}
+
+/**
+ * Reduces a word to a stem shared by its plural and verb forms, so that
+ * e.g. "computer", "computers", and "computing" are counted together.
+ * This strips common suffixes rather than finding a dictionary root.
+ * @param word a lowercase word
+ * @returns the stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) {
+    return word
+  }
+
+  let stemmed = word
+  if (stemmed.endsWith('sses')) {
+    stemmed = stemmed.slice(0, -2)
+  } else if (stemmed.endsWith('ies') || stemmed.endsWith('ied')) {
+    stemmed = stemmed.slice(0, -3) + 'y'
+  } else if (/[^isu]s$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1)
+  }
+
+  const suffix = /(?:ing|ed|er|ly)$/.exec(stemmed)
+  if (suffix != null) {
+    const base = stemmed.slice(0, suffix.index)
+    if (base.length >= 3 && /[aeiouy]/.test(base)) {
+      stemmed = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base
+    }
+  }
+
+  return stemmed.replace(/e$/, '')
+}
@@ -1,5 +1,20 @@
-import { List } from 'immutable'
-import { Question } from './question'
+import { QuestionPool } from 'api/quiz'
+import { List, Set } from 'immutable'
+import { fromSerialized, Question, SerializedQuestion } from './question'
+import { shuffle } from './question/shuffle'
+
+/**
+ * Quiz state in a form that can be written as JSON. Optional fields are
+ * missing from Quizzes saved by older versions of the server.
+ */
+export interface SerializedQuiz {
+  title?: string
+  questions: SerializedQuestion[]
+  currentQuestionIndex: number
+  shuffle?: boolean
+  pools?: QuestionPool[]
+  drawn?: number[]
+}
 
 /**
  * A single-Session Quiz that contains multiple questions
@@ -7,19 +22,53 @@ import { Question } from './question'
 export class Quiz {
   private _questions = List<Question>()
   private _currentQuestionIndex: number = -1
+  private _shuffle: boolean = false
+  private _pools = List<QuestionPool>()
+  private _drawn: List<number> | undefined // indices in _questions, in the order asked
+
+  /**
+   * Creates an empty Quiz
+   * @param title the title of the Quiz
+   */
+  constructor(readonly title: string = '') {}
 
   /**
-   * A view of the questions in the Quiz
+   * The questions that are asked, in the order they are asked. Until the
+   * Quiz is drawn, these are all of the questions.
    */
   get questions(): List<Question> {
+    return this._drawn == null
+      ? this._questions
+      : this._drawn.map((index) => this._questions.get(index)!)
+  }
+
+  /**
+   * Every question in the order they were added, including those that
+   * were not drawn. Pools refer to the questions by their index here.
+   */
+  get allQuestions(): List<Question> {
     return this._questions
   }
 
   /**
-   * The number of questions in the Quiz
+   * The number of questions that are asked
    */
   get numQuestions(): number {
-    return this._questions.size
+    return this._drawn?.size ?? this._questions.size
+  }
+
+  /**
+   * True if the questions are asked in a random order
+   */
+  get shuffle(): boolean {
+    return this._shuffle
+  }
+
+  /**
+   * Groups of questions that only some are asked from
+   */
+  get pools(): List<QuestionPool> {
+    return this._pools
   }
 
   /**
@@ -39,7 +88,14 @@ export class Quiz {
     ) {
       return undefined
     }
-    return this._questions.get(this._currentQuestionIndex)!
+    return this.questionAt(this._currentQuestionIndex)!
+  }
+
+  /**
+   * True if the questions to ask have been drawn
+   */
+  get isDrawn(): boolean {
+    return this._drawn != null
   }
 
   /**
@@ -47,7 +103,8 @@ export class Quiz {
    * @returns the Question if it exists or undefined
    */
   questionAt(index: number): Question | undefined {
-    return this._questions.get(index)
+    const question = this.allIndexOf(index)
+    return question == null ? undefined : this._questions.get(question)
   }
 
   /**
@@ -59,18 +116,68 @@ export class Quiz {
       return undefined
     }
     this._currentQuestionIndex += 1
-    const question = this._questions.get(this._currentQuestionIndex)!
+    const question = this.questionAt(this._currentQuestionIndex)!
     question.start()
     return question
   }
 
+  /**
+   * Sets whether the questions are asked in a random order
+   * @param shuffle true to shuffle the questions when the Quiz is drawn
+   */
+  setShuffle(shuffle: boolean) {
+    this._shuffle = shuffle
+  }
+
+  /**
+   * Sets the groups of questions that only some are asked from. The pools
+   * are assumed to be validated.
+   * @param pools the pools, with indices of questions in the Quiz
+   */
+  setPools(pools: QuestionPool[]) {
+    this._pools = List(pools)
+  }
+
+  /**
+   * Picks the questions to ask from each pool and puts them in the order
+   * to ask them. Every question, the pools, and the shuffle setting are
+   * kept, so the Quiz can still be exported as it was defined. Does
+   * nothing once the Quiz has been drawn or advanced to a Question.
+   * @param random source of random numbers in [0, 1)
+   */
+  draw(random: () => number = Math.random) {
+    if (this._drawn != null || this._currentQuestionIndex !== -1) {
+      return
+    }
+
+    let skipped = Set<number>()
+    this._pools.forEach((pool) => {
+      skipped = skipped.union(shuffle(pool.questions, random).slice(pool.pick))
+    })
+    let drawn = [...this._questions.keys()].filter(
+      (index) => !skipped.has(index)
+    )
+    if (this._shuffle) {
+      drawn = shuffle(drawn, random)
+    }
+
+    this._drawn = List(drawn)
+    this._questions.forEach((question) => {
+      question.index = -1 // not asked
+    })
+    this.questions.forEach((question, index) => {
+      question.index = index
+    })
+  }
+
   /**
    * Adds a question to the Quiz.
    * @param question Question to add
    */
   addQuestion(question: Question) {
     this._questions = this._questions.push(question)
-    question.index = this._questions.size - 1
+    this._drawn = this._drawn?.push(this._questions.size - 1)
+    question.index = this.numQuestions - 1
   }
 
   /**
@@ -82,7 +189,22 @@ export class Quiz {
       return undefined
     }
     const question = this.questionAt(index)
-    this._questions = this._questions.remove(index)
+    const removed = this.allIndexOf(index)!
+    this._questions = this._questions.remove(removed)
+    this._drawn = this._drawn
+      ?.remove(index)
+      .map((other) => (other > removed ? other - 1 : other))
+    this._pools = this._pools
+      .map((pool) => {
+        const questions = pool.questions
+          .filter((other) => other !== removed)
+          .map((other) => (other > removed ? other - 1 : other))
+        return {
+          questions,
+          pick: Math.min(pool.pick, questions.length),
+        }
+      })
+      .filter((pool) => pool.questions.length > 0)
     return question
   }
 
@@ -102,7 +224,7 @@ export class Quiz {
       return undefined
     }
     const question = this.questionAt(index)
-    this._questions = this._questions.set(index, newQuestion)
+    this._questions = this._questions.set(this.allIndexOf(index)!, newQuestion)
     return question
   }
 
@@ -111,11 +233,87 @@ export class Quiz {
    * @returns the copy of the Quiz
    */
   clone(): Quiz {
-    const copy = new Quiz()
+    const copy = new Quiz(this.title)
     copy._questions = this._questions.map((question) => question.clone())
     copy._currentQuestionIndex = this._currentQuestionIndex
+    copy._shuffle = this._shuffle
+    copy._pools = this._pools
+    copy._drawn = this._drawn
     return copy
   }
+
+  /**
+   * Finds where a question that is asked is in all of the questions
+   * @param index index of the question in the order asked
+   * @returns the index in all questions, or undefined if out of range
+   */
+  private allIndexOf(index: number): number | undefined {
+    if (this._drawn == null) {
+      return index >= 0 && index < this._questions.size ? index : undefined
+    }
+    return this._drawn.get(index)
+  }
+
+  /**
+   * Converts the Quiz to a form that can be written as JSON
+   * @returns the serialized Quiz
+   */
+  serialize(): SerializedQuiz {
+    return {
+      title: this.title,
+      questions: this._questions
+        .map((question) => question.serialize())
+        .toArray(),
+      currentQuestionIndex: this._currentQuestionIndex,
+      shuffle: this._shuffle,
+      pools: this._pools.toArray(),
+      ...(this._drawn != null && { drawn: this._drawn.toArray() }),
+    }
+  }
+
+  /**
+   * Recreates a Quiz from data previously returned by `serialize`. Questions
+   * with unknown formats are skipped, as if they had been removed.
+   * @param data the serialized Quiz
+   * @returns the restored Quiz
+   */
+  static deserialize(data: SerializedQuiz): Quiz {
+    const quiz = new Quiz(data.title)
+    // index of each serialized question in the restored Quiz, if kept
+    const restored = data.questions.map((serialized) => {
+      const question = fromSerialized(serialized)
+      if (question == null) {
+        return undefined
+      }
+      quiz._questions = quiz._questions.push(question)
+      return quiz._questions.size - 1
+    })
+    const asked = data.drawn ?? [...data.questions.keys()]
+    const skippedBefore = asked
+      .slice(0, data.currentQuestionIndex + 1)
+      .filter((index) => restored[index] == null).length
+    quiz._currentQuestionIndex = data.currentQuestionIndex - skippedBefore
+    quiz._shuffle = data.shuffle ?? false
+    quiz._pools = List(data.pools ?? [])
+      .map((pool) => {
+        const questions = pool.questions.flatMap(
+          (index) => restored[index] ?? []
+        )
+        return {
+          questions,
+          pick: Math.min(pool.pick, questions.length),
+        }
+      })
+      .filter((pool) => pool.questions.length > 0)
+    quiz._drawn =
+      data.drawn == null
+        ? undefined
+        : List(data.drawn.flatMap((index) => restored[index] ?? []))
+    quiz.questions.forEach((question, index) => {
+      question.index = index
+    })
+    return quiz
+  }
 }
 
 export default Quiz
@@ -1,18 +1,13 @@
-import { QuestionFormat, ResponseType } from 'api/question'
+import { ResponseType } from 'api/question'
+import { questionTypeOf } from './question'
 
 export function responseToString(response: ResponseType): string {
-  switch (response.type) {
-    case QuestionFormat.MultipleChoiceFormat:
-      return response.answer.toString()
-    case QuestionFormat.FillInFormat:
-      return response.answer
-    default:
-      return ''
-  }
+  return questionTypeOf(response.type)?.responseToString(response) ?? ''
 }
 
 /**
- * Validates a Response, ensuring it has no missing fields.
+ * Validates a Response, ensuring it has no missing fields and that its
+ * answer suits its format.
  * @param response Response to check for nulls/undefineds
  * @returns true if all fields are defined
  */
@@ -22,8 +17,10 @@ export function validateResponse(response?: Partial<ResponseType>): boolean {
     return false
   }
 
+  const type = questionTypeOf(response.type)
   return (
-    response.type in QuestionFormat &&
+    type != null &&
+    type.validateResponse(response) &&
     response.answer !== null &&
     response.submitter !== null
   )
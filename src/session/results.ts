@@ -0,0 +1,124 @@
+import { ResponseType } from 'api/question'
+import { SessionResults, UserResults } from 'api/session'
+import { Question, responseToString } from './quiz'
+import { Session } from './session'
+
+/**
+ * Builds the results of a Session for its owner, with every user's score
+ * and every response to each Question
+ * @param session the Session
+ * @returns the Session results
+ */
+export function sessionResults(session: Session): SessionResults {
+  const quiz = session.quiz
+  return {
+    leaderboard: session.scoreboard.entries.toArray(),
+    questions: quiz.questions
+      .map((question, index) => ({
+        index,
+        text: question.text,
+        totalPoints: question.totalPoints,
+        correctAnswers: question.correctAnswers,
+        responses: question.responses
+          .map((response) => ({
+            user: response.submitter,
+            response: responseText(question, response),
+            points: question.pointsFor(response.submitter) ?? 0,
+          }))
+          .toArray(),
+      }))
+      .toArray(),
+  }
+}
+
+/**
+ * Builds the results of a Session for one of its users, with their
+ * score and their response to each Question
+ * @param session the Session
+ * @param name name of the user
+ * @returns the user's results, or undefined if the user is not in the Session
+ */
+export function userResults(
+  session: Session,
+  name: string
+): UserResults | undefined {
+  const entry = session.scoreboard.entryFor(name)
+  if (entry == null) {
+    return undefined
+  }
+
+  const quiz = session.quiz
+  return {
+    ...entry,
+    questions: quiz.questions
+      .map((question, index) => {
+        const response = question.responseFrom(name)
+        return {
+          index,
+          text: question.text,
+          totalPoints: question.totalPoints,
+          response: response == null ? null : responseText(question, response),
+          correctAnswers: question.correctAnswers,
+          points: question.pointsFor(name) ?? 0,
+        }
+      })
+      .toArray(),
+  }
+}
+
+/**
+ * Builds a CSV of a Session's scores, with one row per user and a points
+ * and response column for each Question, followed by the user's total.
+ * @param session the Session
+ * @returns the CSV text
+ */
+export function resultsToCsv(session: Session): string {
+  const quiz = session.quiz
+  const header: CsvCell[] = ['Name']
+  quiz.questions.forEach((_, index) => {
+    header.push(`Q${index + 1} Points`, `Q${index + 1} Response`)
+  })
+  header.push('Total')
+
+  const rows = session.scoreboard.entries.map((entry) => {
+    const row: CsvCell[] = [entry.name]
+    quiz.questions.forEach((question) => {
+      const response = question.responseFrom(entry.name)
+      row.push(
+        question.pointsFor(entry.name) ?? 0,
+        response == null ? '' : responseText(question, response)
+      )
+    })
+    row.push(entry.points)
+    return row
+  })
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvField).join(','))
+    .join('\r\n')
+}
+
+type CsvCell = string | number
+
+/**
+ * Escapes a value for a CSV field. Text starting with a character that
+ * spreadsheets treat as a formula is prefixed so it is shown as text.
+ */
+function toCsvField(value: CsvCell): string {
+  if (typeof value === 'number') {
+    return value.toString()
+  }
+  let text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Describes a user's Response in terms of the Question's own answers,
+ * rather than the order the user saw them in
+ */
+function responseText(question: Question, response: ResponseType): string {
+  return responseToString(question.canonicalResponse(response))
+}
@@ -0,0 +1,82 @@
+import { LeaderboardEntry } from 'api/session'
+import { List } from 'immutable'
+import { Quiz } from './quiz'
+
+/**
+ * Cumulative scores for every user in a Session, ranked by points
+ */
+export class Scoreboard {
+  /**
+   * The number of entries broadcast to users in a Session
+   */
+  static readonly leaderboardSize: number = 5
+
+  private _entries = List<LeaderboardEntry>()
+
+  /**
+   * All entries, ordered by rank
+   */
+  get entries(): List<LeaderboardEntry> {
+    return this._entries
+  }
+
+  /**
+   * Totals the points earned by users for each Question in a Quiz
+   * @param quiz the Quiz containing graded responses
+   * @param users names of the users to score, including those who never responded
+   */
+  constructor(quiz: Quiz, users: Iterable<string>) {
+    const unranked = List(users).map((name) => {
+      let points = 0
+      let correct = 0
+      quiz.questions.forEach((question) => {
+        if (!question.isGraded) {
+          return
+        }
+        points += question.pointsFor(name) ?? 0
+        if (question.isCorrectFor(name)) {
+          correct += 1
+        }
+      })
+      return { name, points, correct, rank: 0 }
+    })
+
+    const sorted = unranked.sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.correct - a.correct ||
+        a.name.localeCompare(b.name)
+    )
+
+    // Users with the same points share the rank of the first of them
+    let rank = 0
+    let previous: number | undefined
+    this._entries = sorted.map((entry, index) => {
+      if (entry.points !== previous) {
+        rank = index + 1
+        previous = entry.points
+      }
+      return { ...entry, rank }
+    })
+  }
+
+  /**
+   * Gets the highest ranked entries
+   * @param count the maximum number of entries
+   * @returns the entries, ordered by rank
+   */
+  top(count: number = Scoreboard.leaderboardSize): List<LeaderboardEntry> {
+    return this._entries.take(count)
+  }
+
+  /**
+   * Finds the entry for a user
+   * @param name name of the user
+   * @returns the entry, or undefined if the user is not on the Scoreboard
+   */
+  entryFor(name: string): LeaderboardEntry | undefined {
+    return this._entries.find((entry) => entry.name === name)
+  }
+}
+
+export default Scoreboard
@@ -1,15 +1,40 @@
-import { customAlphabet } from 'nanoid'
-import { Map } from 'immutable'
-import { Quiz } from './quiz'
+import { ApiError } from 'api/error'
+import { JoinPolicy } from 'api/session'
+import { customAlphabet, nanoid as generateToken } from 'nanoid'
+import { List, Map } from 'immutable'
+import { Quiz, SerializedQuiz } from './quiz'
+import { Scoreboard } from './scoreboard'
 import { User } from './user'
 
 const nanoid = customAlphabet('0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ', 8)
 
+/**
+ * Session state in a form that can be written as JSON. Optional fields
+ * are missing from Sessions saved by older versions of the server.
+ */
+export interface SerializedSession {
+  id: string
+  owner: string
+  ownerToken?: string
+  quiz: SerializedQuiz
+  users: { name: string; id: string; token?: string }[]
+  joinPolicy?: JoinPolicy
+  joinUntilQuestion?: number
+  isStarted: boolean
+  hasEnded: boolean
+}
+
 /**
  * Represents a classroom/quiz session
  */
 export class Session {
-  readonly id: string = nanoid()
+  private _owner: string
+  /**
+   * The id of the socket that owns the Session
+   */
+  get owner(): string {
+    return this._owner
+  }
 
   private _quiz: Quiz = new Quiz()
   /**
@@ -22,16 +47,52 @@ export class Session {
     return this._quiz
   }
 
+  /**
+   * Gets the Quiz, even if the Session has ended. Copies of the Quiz do
+   * not share the timeouts of its Questions, so this is the Quiz to use
+   * when starting or stopping them.
+   */
+  get liveQuiz(): Quiz {
+    return this._quiz
+  }
+
+  /**
+   * Replaces the Quiz with another, if the Session has not started
+   * @param quiz the new Quiz
+   * @returns true if the Quiz was replaced
+   */
+  loadQuiz(quiz: Quiz): boolean {
+    if (this.isStarted || this.hasEnded) {
+      return false
+    }
+    this._quiz = quiz
+    return true
+  }
+
   /**
    * Map of users keyed on user.name
    */
   private users = Map<string, User>()
 
   /**
-   * Map of users keyed on user.id
+   * Map of connected users keyed on user.id
    */
   private usersById = Map<string, User>()
 
+  /**
+   * All users in the Session, including disconnected users
+   */
+  get participants(): List<User> {
+    return this.users.valueSeq().toList()
+  }
+
+  /**
+   * The current scores of all users in the Session
+   */
+  get scoreboard(): Scoreboard {
+    return new Scoreboard(this._quiz, this.users.keySeq().toArray())
+  }
+
   private _isStarted: boolean = false
   public get isStarted(): boolean {
     return this._isStarted
@@ -42,7 +103,109 @@ export class Session {
     return this._hasEnded
   }
 
-  constructor(readonly owner: string) {}
+  private _joinPolicy: JoinPolicy = JoinPolicy.ClosedAfterStart
+  /**
+   * When users may join the Session
+   */
+  get joinPolicy(): JoinPolicy {
+    return this._joinPolicy
+  }
+
+  private _joinUntilQuestion: number = -1
+  /**
+   * The last question index users may join during, for the
+   * OpenUntilQuestion policy
+   */
+  get joinUntilQuestion(): number {
+    return this._joinUntilQuestion
+  }
+
+  /**
+   * True if new users may currently join the Session
+   */
+  get isJoinable(): boolean {
+    if (this.hasEnded) {
+      return false
+    }
+    if (!this.isStarted) {
+      return true
+    }
+    switch (this._joinPolicy) {
+      case JoinPolicy.OpenUntilEnd:
+        return true
+      case JoinPolicy.OpenUntilQuestion:
+        return this._quiz.currentQuestionIndex <= this._joinUntilQuestion
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Creates a new Session
+   * @param owner id of the socket creating the Session
+   * @param id id of the Session
+   * @param ownerToken secret the owner can use to resume the Session from another socket
+   */
+  constructor(
+    owner: string,
+    readonly id: string = nanoid(),
+    readonly ownerToken: string = generateToken()
+  ) {
+    this._owner = owner
+  }
+
+  /**
+   * Makes a new socket the owner of the Session, such as when the
+   * owner reconnects
+   * @param owner id of the new owner socket
+   */
+  setOwner(owner: string) {
+    this._owner = owner
+  }
+
+  /**
+   * Validates join policy settings submitted by a client
+   * @param policy the JoinPolicy
+   * @param untilQuestion the question index for OpenUntilQuestion
+   * @returns failed constraints
+   */
+  static validateJoinPolicy(
+    policy?: JoinPolicy,
+    untilQuestion?: number
+  ): ApiError[] {
+    if (
+      typeof policy !== 'number' ||
+      !Object.values(JoinPolicy).includes(policy)
+    ) {
+      return [{ field: 'joinPolicy', value: policy == null ? null : policy }]
+    }
+    if (
+      policy === JoinPolicy.OpenUntilQuestion &&
+      (untilQuestion == null ||
+        !Number.isInteger(untilQuestion) ||
+        untilQuestion < 0)
+    ) {
+      return [
+        {
+          field: 'joinUntilQuestion',
+          value: untilQuestion == null ? null : untilQuestion,
+        },
+      ]
+    }
+    return []
+  }
+
+  /**
+   * Sets when users may join the Session. The settings are assumed
+   * to be validated.
+   * @param policy the JoinPolicy
+   * @param untilQuestion the question index for OpenUntilQuestion
+   */
+  setJoinPolicy(policy: JoinPolicy, untilQuestion: number = -1) {
+    this._joinPolicy = policy
+    this._joinUntilQuestion =
+      policy === JoinPolicy.OpenUntilQuestion ? untilQuestion : -1
+  }
 
   /**
    * Finds a User in the Session by name
@@ -54,7 +217,7 @@ export class Session {
   }
 
   /**
-   * Finds a User in the Session by id
+   * Finds a connected User in the Session by id
    * @param id id of User to lookup
    * @returns the User if found, or undefined
    */
@@ -63,22 +226,21 @@ export class Session {
   }
 
   /**
-   * Adds a user to the Session
+   * Adds a user to the Session, if the join policy allows it
    * @param user User joining
    * @returns true if user is added successfully
    */
   addUser(user: User): boolean {
     if (
       user.id === this.owner ||
-      this.isStarted ||
-      this.hasEnded ||
+      !this.isJoinable ||
       this.users.has(user.name) ||
       this.usersById.has(user.id)
     ) {
       return false
     }
     this.users = this.users.set(user.name, user)
-    this.usersById = this.users.set(user.id, user)
+    this.usersById = this.usersById.set(user.id, user)
     return true
   }
 
@@ -98,10 +260,55 @@ export class Session {
   }
 
   /**
-   * Starts the Session, preventing users from joining and causing
-   * questions to be pushed to users
+   * Marks a User as disconnected, keeping them in the Session
+   * so they can rejoin later with their token
+   * @param name Name of the user that disconnected
+   * @returns the disconnected User
+   */
+  disconnectUser(name: string): User | undefined {
+    const user = this.users.get(name)
+    if (user != null && this.usersById.has(user.id)) {
+      this.usersById = this.usersById.delete(user.id)
+      return user
+    }
+    return undefined
+  }
+
+  /**
+   * Associates an existing User with a new socket, keeping their name
+   * and responses. The User's previous socket, if still connected,
+   * will no longer be associated with the User.
+   * @param name Name of the User rejoining
+   * @param token The token the User was given when they joined
+   * @param id id of the User's new socket
+   * @returns the User with the new id if the token matched
+   */
+  rejoinUser(name: string, token: string, id: string): User | undefined {
+    const user = this.users.get(name)
+    if (
+      user == null ||
+      user.token !== token ||
+      id === this.owner ||
+      this.hasEnded ||
+      (this.usersById.has(id) && id !== user.id)
+    ) {
+      return undefined
+    }
+    const rejoined = new User(user.name, id, user.token)
+    this.users = this.users.set(rejoined.name, rejoined)
+    this.usersById = this.usersById.delete(user.id).set(rejoined.id, rejoined)
+    return rejoined
+  }
+
+  /**
+   * Starts the Session, preventing users from joining (unless the join
+   * policy allows it) and causing questions to be pushed to users. The
+   * questions to ask are drawn from the Quiz when it starts.
    */
   start() {
+    if (!this._isStarted) {
+      this._quiz.draw()
+    }
     this._isStarted = true
   }
 
@@ -119,6 +326,49 @@ export class Session {
       }
     }
   }
+
+  /**
+   * Converts the Session to a form that can be written as JSON
+   * @returns the serialized Session
+   */
+  serialize(): SerializedSession {
+    return {
+      id: this.id,
+      owner: this.owner,
+      ownerToken: this.ownerToken,
+      quiz: this._quiz.serialize(),
+      users: this.users
+        .valueSeq()
+        .map((user) => ({ name: user.name, id: user.id, token: user.token }))
+        .toArray(),
+      isStarted: this._isStarted,
+      hasEnded: this._hasEnded,
+      joinPolicy: this._joinPolicy,
+      joinUntilQuestion: this._joinUntilQuestion,
+    }
+  }
+
+  /**
+   * Recreates a Session from data previously returned by `serialize`.
+   * Users in the restored Session are disconnected until they rejoin.
+   * @param data the serialized Session
+   * @returns the restored Session
+   */
+  static deserialize(data: SerializedSession): Session {
+    const session = new Session(data.owner, data.id, data.ownerToken)
+    session._quiz = Quiz.deserialize(data.quiz)
+    data.users.forEach(({ name, id, token }) => {
+      const user = new User(name, id, token)
+      session.users = session.users.set(user.name, user)
+    })
+    session._isStarted = data.isStarted
+    session._hasEnded = data.hasEnded
+    session.setJoinPolicy(
+      data.joinPolicy ?? JoinPolicy.ClosedAfterStart,
+      data.joinUntilQuestion
+    )
+    return session
+  }
 }
 
 export default Session
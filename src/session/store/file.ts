@@ -0,0 +1,142 @@
+import { existsSync, readFileSync } from 'fs'
+import { rename, writeFile } from 'fs/promises'
+import { Map } from 'immutable'
+import { Session, SerializedSession } from 'session/session'
+import { SessionStore } from './store'
+
+const debug = require('debug')('app:store')
+
+/**
+ * Contents of the file written by FileSessionStore
+ */
+interface SessionStoreFile {
+  version: number
+  sessions: SerializedSession[]
+}
+
+/**
+ * A SessionStore that writes all Sessions to a single JSON file. Changes
+ * are gathered and written in the background, at most once per `writeDelay`.
+ */
+export class FileSessionStore implements SessionStore {
+  /**
+   * Version of the file written by this store. Files from older versions
+   * are missing fields that were added since, which are given defaults when
+   * the Sessions are restored.
+   */
+  static readonly version: number = 2
+
+  /**
+   * Time to wait after a change before writing the file, in milliseconds
+   */
+  static readonly writeDelay: number = 1000
+
+  private _sessions = Map<string, SerializedSession>()
+  private writeTimeout: NodeJS.Timeout | undefined
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * Creates a FileSessionStore, reading any Sessions already in the file
+   * @param path path of the JSON file to use
+   */
+  constructor(readonly path: string) {
+    this._sessions = this.read()
+  }
+
+  save(session: Session) {
+    this._sessions = this._sessions.set(session.id, session.serialize())
+    this.scheduleWrite()
+  }
+
+  remove(id: string) {
+    if (this._sessions.has(id)) {
+      this._sessions = this._sessions.delete(id)
+      this.scheduleWrite()
+    }
+  }
+
+  load(): Session[] {
+    return this._sessions
+      .valueSeq()
+      .map((data) => Session.deserialize(data))
+      .toArray()
+  }
+
+  /**
+   * Writes any changes that are waiting to be written, such as before the
+   * process exits
+   * @returns a Promise resolved once the file is written
+   */
+  flush(): Promise<void> {
+    if (this.writeTimeout != null) {
+      clearTimeout(this.writeTimeout)
+      this.writeTimeout = undefined
+      this.write()
+    }
+    return this.writing
+  }
+
+  /**
+   * Reads the store file, ignoring it if it is missing or cannot be parsed
+   */
+  private read(): Map<string, SerializedSession> {
+    if (!existsSync(this.path)) {
+      return Map<string, SerializedSession>()
+    }
+
+    try {
+      const file: SessionStoreFile = JSON.parse(readFileSync(this.path, 'utf8'))
+      if (
+        !Number.isInteger(file.version) ||
+        file.version < 1 ||
+        file.version > FileSessionStore.version
+      ) {
+        debug(`ignoring store ${this.path} with version ${file.version}`)
+        return Map<string, SerializedSession>()
+      }
+      return Map(
+        file.sessions.map((session): [string, SerializedSession] => [
+          session.id,
+          session,
+        ])
+      )
+    } catch (error) {
+      debug(`could not read store ${this.path}`, error)
+      return Map<string, SerializedSession>()
+    }
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimeout != null) {
+      return
+    }
+    this.writeTimeout = setTimeout(() => {
+      this.writeTimeout = undefined
+      this.write()
+    }, FileSessionStore.writeDelay)
+  }
+
+  /**
+   * Writes all Sessions to the store file, after any write in progress.
+   * The file is written to a temporary path first so a crash mid-write
+   * cannot corrupt the existing file. Failures are logged, and the Sessions
+   * are written again on the next change.
+   */
+  private write() {
+    const file: SessionStoreFile = {
+      version: FileSessionStore.version,
+      sessions: this._sessions.valueSeq().toArray(),
+    }
+    const tempPath = `${this.path}.tmp`
+    this.writing = this.writing.then(async () => {
+      try {
+        await writeFile(tempPath, JSON.stringify(file))
+        await rename(tempPath, this.path)
+      } catch (error) {
+        debug(`could not write store ${this.path}`, error)
+      }
+    })
+  }
+}
+
+export default FileSessionStore
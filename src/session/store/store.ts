@@ -0,0 +1,49 @@
+import { Map } from 'immutable'
+import { Session, SerializedSession } from 'session/session'
+
+/**
+ * Persists Sessions so they can be restored when the server restarts
+ */
+export interface SessionStore {
+  /**
+   * Writes the current state of a Session, replacing any previous state
+   * @param session the Session to save
+   */
+  save(session: Session): void
+
+  /**
+   * Deletes a Session from the store
+   * @param id id of the Session to remove
+   */
+  remove(id: string): void
+
+  /**
+   * Reads every Session in the store
+   * @returns the restored Sessions
+   */
+  load(): Session[]
+}
+
+/**
+ * A SessionStore that only keeps Sessions for the lifetime of the process
+ */
+export class MemorySessionStore implements SessionStore {
+  private _sessions = Map<string, SerializedSession>()
+
+  save(session: Session) {
+    this._sessions = this._sessions.set(session.id, session.serialize())
+  }
+
+  remove(id: string) {
+    this._sessions = this._sessions.delete(id)
+  }
+
+  load(): Session[] {
+    return this._sessions
+      .valueSeq()
+      .map((data) => Session.deserialize(data))
+      .toArray()
+  }
+}
+
+export default SessionStore
@@ -1,5 +1,17 @@
+import { nanoid } from 'nanoid'
+
 export class User {
-  constructor(readonly name: string, readonly id: string) {}
+  /**
+   * Creates a User
+   * @param name unique name of the User in its Session
+   * @param id id of the User's socket
+   * @param token secret the User can use to rejoin from another socket
+   */
+  constructor(
+    readonly name: string,
+    readonly id: string,
+    readonly token: string = nanoid()
+  ) {}
 }
 
 export default User
@@ -2,11 +2,17 @@ jest.mock('socket.io')
 jest.mock('socket.io/dist/client')
 import SessionEvent from 'api/event'
 import { QuestionFormat } from 'api/question'
-import { JoinSession } from 'api/request'
-import { EventResponse, ResponseStatus } from 'api/response'
+import { QuizDocument } from 'api/quiz'
+import { JoinSession, SetQuestionOrder } from 'api/request'
+import { EventResponse, JoinSessionSuccess, ResponseStatus } from 'api/response'
+import { JoinPolicy } from 'api/session'
 import { nanoid } from 'nanoid'
+import { unwrap } from 'result'
 import { SessionController } from 'server/controller'
 import { Session } from 'session'
+import { fromSubmission, quizDocumentVersion } from 'session/quiz'
+import { MemorySessionStore } from 'session/store'
+import User from 'session/user'
 import { Namespace, Server, Socket } from 'socket.io'
 import { Client } from 'socket.io/dist/client'
 
@@ -53,14 +59,119 @@ describe('SessionController', () => {
   })
 
   afterEach(() => {
+    controller.close()
     jest.useRealTimers()
   })
 
+  describe('constructor', () => {
+    it('should restore sessions from its store', () => {
+      jest.useFakeTimers()
+      const store = new MemorySessionStore()
+      store.save(session)
+
+      controller = new SessionController(server, { store })
+      expect(controller.sessions.get(session.id)?.owner).toBe(session.owner)
+    })
+
+    it('should close restored sessions whose owner does not resume', () => {
+      jest.useFakeTimers()
+      const store = new MemorySessionStore()
+      store.save(session)
+
+      controller = new SessionController(server, { store })
+      // @ts-ignore
+      controller.emit = jest.fn()
+      jest.advanceTimersByTime(SessionController.defaultOwnerGracePeriod * 1000)
+      expect(controller.sessions.has(session.id)).toBe(false)
+      expect(store.load()).toHaveLength(0)
+    })
+  })
+
+  describe('close', () => {
+    it('should stop the timeouts of in-progress questions', () => {
+      jest.useFakeTimers()
+      session.quiz.addQuestion(
+        unwrap(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [{ text: 'One', points: 100 }],
+            },
+            timeLimit: 60,
+          })
+        )
+      )
+      session.start()
+      const question = session.quiz.advanceToNextQuestion()!
+
+      controller.close()
+      jest.advanceTimersByTime(60 * 1000)
+      expect(question.hasEnded).toBe(false)
+      expect(jest.getTimerCount()).toBe(0)
+    })
+
+    it('should stop the timeouts of sessions that have ended', () => {
+      jest.useFakeTimers()
+      for (let i = 0; i < 2; ++i) {
+        session.quiz.addQuestion(
+          unwrap(
+            fromSubmission({
+              text: 'Question',
+              body: {
+                type: QuestionFormat.FillInFormat,
+                answers: [{ text: 'One', points: 100 }],
+              },
+              timeLimit: 60,
+            })
+          )
+        )
+      }
+      session.start()
+      // Leave the first question running while asking the second
+      session.quiz.advanceToNextQuestion()
+      session.quiz.advanceToNextQuestion()
+      ;(server.except as jest.Mock).mockReturnValue({
+        socketsLeave: jest.fn(() => {}),
+      })
+      controller.endSession(socket)({ session: session.id }, () => {})
+      expect(session.hasEnded).toBe(true)
+
+      controller.close()
+      expect(jest.getTimerCount()).toBe(0)
+    })
+  })
+
+  describe('handleDisconnect', () => {
+    it('should keep a session whose owner disconnects for the grace period', () => {
+      jest.useFakeTimers()
+      controller.handleDisconnect(socket)('transport close')
+      expect(controller.sessions.has(session.id)).toBe(true)
+    })
+
+    it('should close an ended session without sending its results again', () => {
+      session.start()
+      session.end()
+
+      controller.handleDisconnect(socket)('transport close')
+      expect(controller.sessions.has(session.id)).toBe(false)
+      // @ts-ignore
+      expect(controller.emit).not.toHaveBeenCalled()
+    })
+  })
+
   describe('createSession', () => {
     it('should not create session if there is no callback', () => {
       controller.createSession(socket)()
       expect(controller.sessions.size).toBe(1) // only the session added in setup
     })
+
+    it('should save created sessions to its store', () => {
+      const store = new MemorySessionStore()
+      controller = new SessionController(server, { store })
+      controller.createSession(socket)(() => {})
+      expect(store.load()).toHaveLength(1)
+    })
   })
 
   describe('addUserToSession', () => {
@@ -118,6 +229,45 @@ describe('SessionController', () => {
       expect(res.status).toBe(ResponseStatus.Failure)
     })
 
+    it('should send late joiners the current question', () => {
+      jest.useFakeTimers()
+      session.setJoinPolicy(JoinPolicy.OpenUntilEnd)
+      session.quiz.addQuestion(
+        unwrap(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [{ text: 'One', points: 100 }],
+            },
+            timeLimit: 60,
+          })
+        )
+      )
+      session.start()
+      session.quiz.advanceToNextQuestion()
+
+      let res!: EventResponse
+      controller.addUserToSession(userSocket)(
+        <JoinSession>{
+          id: session.id,
+          name: nanoid(),
+        },
+        (response: EventResponse) => {
+          res = response
+        }
+      )
+      expect(res.status).toBe(ResponseStatus.Success)
+      const data = (<JoinSessionSuccess>res).data
+      expect(data.isStarted).toBe(true)
+      expect(data.question).toEqual({
+        index: 0,
+        question: session.quiz.currentQuestion!.view,
+        timeRemaining: 60,
+        responded: false,
+      })
+    })
+
     it('should not add same username twice', () => {
       const name = nanoid()
       let res!: EventResponse
@@ -211,6 +361,7 @@ describe('SessionController', () => {
               ],
             },
             timeLimit: 60,
+            explanation: 'Both are numbers',
           },
         },
         () => {}
@@ -232,8 +383,135 @@ describe('SessionController', () => {
         session: session.id,
         data: {
           question: 0,
+          correctAnswers: ['One', 'Two'],
+          explanation: 'Both are numbers',
+          frequency: { one: 0, two: 0 },
+          statistics: null,
+        },
+      })
+    })
+
+    it('should tell each user whether they were correct when a Question ends', () => {
+      jest.useFakeTimers()
+      const right = new User('right', nanoid())
+      const partial = new User('partial', nanoid())
+      const wrong = new User('wrong', nanoid())
+      const absent = new User('absent', nanoid())
+      session.addUser(right)
+      session.addUser(partial)
+      session.addUser(wrong)
+      session.addUser(absent)
+
+      controller.addQuestionToSession(socket)(
+        {
+          session: session.id,
+          question: {
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [
+                { text: 'One', points: 100 },
+                { text: 'Won', points: 50 },
+              ],
+            },
+            timeLimit: 60,
+          },
+        },
+        () => {}
+      )
+      session.start()
+      const question = session.quiz.advanceToNextQuestion()!
+      question.addResponse({
+        type: QuestionFormat.FillInFormat,
+        submitter: 'right',
+        answer: 'one',
+      })
+      question.addResponse({
+        type: QuestionFormat.FillInFormat,
+        submitter: 'partial',
+        answer: 'won',
+      })
+      question.addResponse({
+        type: QuestionFormat.FillInFormat,
+        submitter: 'wrong',
+        answer: 'two',
+      })
+      jest.runAllTimers()
+
+      const graded = (user: User) =>
+        // @ts-ignore
+        (controller.emit as jest.Mock).mock.calls.find(
+          ([target, response]) =>
+            target === user.id && response.event === SessionEvent.QuestionGraded
+        )?.[1].data
+
+      expect(graded(right)).toEqual({
+        question: 0,
+        responded: true,
+        correct: true,
+        points: 100,
+      })
+      expect(graded(partial)).toEqual({
+        question: 0,
+        responded: true,
+        correct: false,
+        points: 50,
+      })
+      expect(graded(wrong)).toEqual({
+        question: 0,
+        responded: true,
+        correct: false,
+        points: 0,
+      })
+      expect(graded(absent)).toEqual({
+        question: 0,
+        responded: false,
+        correct: false,
+        points: 0,
+      })
+    })
+
+    it('should only send the results of unshared polls to the owner', () => {
+      controller.addQuestionToSession(socket)(
+        {
+          session: session.id,
+          question: {
+            text: 'Question',
+            body: {
+              type: QuestionFormat.PollFormat,
+              choices: [{ text: 'One' }, { text: 'Two' }],
+              broadcast: false,
+            },
+            timeLimit: 60,
+          },
         },
+        () => {}
+      )
+      session.start()
+      const question = session.quiz.advanceToNextQuestion()!
+      question.addResponse({
+        type: QuestionFormat.PollFormat,
+        submitter: 'user',
+        answer: [0],
       })
+      jest.runAllTimers()
+
+      const ended = (mock: unknown) =>
+        (mock as jest.Mock).mock.calls.filter(
+          (args) => args[args.length - 1].event === SessionEvent.QuestionEnded
+        )
+
+      // @ts-ignore
+      const toOwner = ended(controller.emit)
+      expect(toOwner).toHaveLength(1)
+      expect(toOwner[0][0]).toBe(session.owner)
+      expect(toOwner[0][1].data.frequency).toEqual({ '0': 1 })
+
+      // @ts-ignore
+      const toUsers = ended(controller.emitExcept)
+      expect(toUsers).toHaveLength(1)
+      expect(toUsers[0][2].data.frequency).toBeNull()
+      expect(toUsers[0][2].data.statistics).toBeNull()
     })
   })
 
@@ -289,4 +567,109 @@ describe('SessionController', () => {
       expect(session.findUserByName(username)).toBeUndefined()
     })
   })
+
+  describe('importQuiz', () => {
+    const quiz: QuizDocument = {
+      version: quizDocumentVersion,
+      title: 'Quiz',
+      questions: [
+        {
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [{ text: 'One', points: 100 }],
+          },
+          timeLimit: 60,
+        },
+      ],
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    it('should replace the questions in the session', () => {
+      let res!: EventResponse
+      controller.importQuiz(socket)(
+        { session: session.id, quiz },
+        (response: EventResponse) => {
+          res = response
+        }
+      )
+      expect(res.status).toBe(ResponseStatus.Success)
+      expect(session.quiz.title).toBe('Quiz')
+      // @ts-ignore
+      expect(session.quiz.questionAt(0)!.onTimeout).toBeDefined()
+    })
+
+    it('should not load anything if any question is invalid', () => {
+      let res!: EventResponse
+      controller.importQuiz(socket)(
+        {
+          session: session.id,
+          quiz: {
+            ...quiz,
+            questions: [...quiz.questions, { ...quiz.questions[0]!, text: '' }],
+          },
+        },
+        (response: EventResponse) => {
+          res = response
+        }
+      )
+      expect(res.status).toBe(ResponseStatus.Failure)
+      expect(session.quiz.questions.size).toBe(0)
+    })
+  })
+
+  describe('setQuestionOrder', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+      for (let i = 0; i < 3; ++i) {
+        session.quiz.addQuestion(
+          unwrap(
+            fromSubmission({
+              text: 'Question',
+              body: {
+                type: QuestionFormat.FillInFormat,
+                answers: [{ text: 'One', points: 100 }],
+              },
+              timeLimit: 60,
+            })
+          )
+        )
+      }
+    })
+
+    const setOrder = (args: Partial<SetQuestionOrder>) => {
+      let res!: EventResponse
+      controller.setQuestionOrder(socket)(
+        { session: session.id, ...args },
+        (response: EventResponse) => {
+          res = response
+        }
+      )
+      return res
+    }
+
+    it('should set the pools and shuffle before the session starts', () => {
+      const pools = [{ questions: [1, 2], pick: 1 }]
+      expect(setOrder({ shuffle: true, pools }).status).toBe(
+        ResponseStatus.Success
+      )
+      expect(session.quiz.shuffle).toBe(true)
+      expect(session.quiz.pools.toArray()).toEqual(pools)
+    })
+
+    it('should reject invalid pools', () => {
+      const res = setOrder({ pools: [{ questions: [0, 3], pick: 1 }] })
+      expect(res.status).toBe(ResponseStatus.Failure)
+      expect(session.quiz.pools.size).toBe(0)
+    })
+
+    it('should not change the order after the session starts', () => {
+      session.start()
+      expect(setOrder({ shuffle: true }).status).toBe(ResponseStatus.Failure)
+      expect(session.quiz.shuffle).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,134 @@
+import { QuestionFormat } from 'api/question'
+import { QuizDocument } from 'api/quiz'
+import { Result, unwrap } from 'result'
+import {
+  fromQuizDocument,
+  Question,
+  quizDocumentVersion,
+  toQuizDocument,
+} from 'session/quiz'
+
+describe('QuizDocument', () => {
+  let document: QuizDocument
+
+  beforeEach(() => {
+    document = {
+      version: quizDocumentVersion,
+      title: 'Quiz',
+      questions: [
+        {
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'One', points: 100 },
+              { text: 'Two', points: 0 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        },
+        {
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [{ text: 'One', points: 100 }],
+          },
+          timeLimit: Question.minTimeLimit,
+          explanation: 'One is the loneliest number',
+        },
+      ],
+    }
+  })
+
+  describe('fromQuizDocument', () => {
+    it('should create a Quiz with every question', () => {
+      const quiz = unwrap(fromQuizDocument(document))
+      expect(quiz.title).toBe('Quiz')
+      expect(quiz.questions.size).toBe(2)
+    })
+
+    it('should reject unknown versions', () => {
+      document.version = quizDocumentVersion + 1
+      const result = fromQuizDocument(document)
+      expect(result.type).toBe(Result.Failure)
+    })
+
+    it('should reject documents with no questions', () => {
+      document.questions = []
+      const result = fromQuizDocument(document)
+      expect(result.type === Result.Failure && result.errors).toEqual([
+        { field: 'questions', value: 0 },
+      ])
+    })
+
+    it('should report errors with the index of the question', () => {
+      document.questions[1]!.timeLimit = 0
+      document.questions[0]!.body = {
+        type: QuestionFormat.MultipleChoiceFormat,
+        choices: [
+          { text: '', points: 100 },
+          { text: 'Two', points: 0 },
+        ],
+        answer: 0,
+      }
+      const result = fromQuizDocument(document)
+      expect(result.type === Result.Failure && result.errors).toEqual([
+        {
+          field: 'questions',
+          value: { index: 0, field: 'choices[0].text', value: '' },
+        },
+        {
+          field: 'questions',
+          value: { index: 1, field: 'timeLimit', value: 0 },
+        },
+      ])
+    })
+
+    it('should keep the explanation of each question', () => {
+      const quiz = unwrap(fromQuizDocument(document))
+      expect(quiz.questionAt(0)!.explanation).toBeNull()
+      expect(quiz.questionAt(1)!.explanation).toBe(
+        'One is the loneliest number'
+      )
+    })
+
+    it('should reject explanations that are not text', () => {
+      document.questions[1]!.explanation = 1 as unknown as string
+      const result = fromQuizDocument(document)
+      expect(result.type === Result.Failure && result.errors).toEqual([
+        {
+          field: 'questions',
+          value: { index: 1, field: 'explanation', value: null },
+        },
+      ])
+    })
+
+    it('should reject pools that overlap or pick too many questions', () => {
+      document.pools = [
+        { questions: [0, 1], pick: 3 },
+        { questions: [1, 2], pick: 1 },
+      ]
+      const result = fromQuizDocument(document)
+      expect(result.type === Result.Failure && result.errors).toEqual([
+        { field: 'pools', value: { index: 0, field: 'pick', value: 3 } },
+        { field: 'pools', value: { index: 1, field: 'questions', value: 1 } },
+        { field: 'pools', value: { index: 1, field: 'questions', value: 2 } },
+      ])
+    })
+  })
+
+  describe('toQuizDocument', () => {
+    it('should produce a document that can be imported again', () => {
+      const quiz = unwrap(fromQuizDocument(document))
+      expect(toQuizDocument(quiz)).toEqual(document)
+    })
+
+    it('should keep the pools and shuffle setting', () => {
+      document.shuffle = true
+      document.pools = [{ questions: [0, 1], pick: 1 }]
+      const quiz = unwrap(fromQuizDocument(document))
+      expect(toQuizDocument(quiz)).toEqual(document)
+    })
+  })
+})
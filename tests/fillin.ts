@@ -1,11 +1,20 @@
-import { QuestionFormat } from 'api/question'
-import { unwrap } from 'result'
+import {
+  FillInSubmission,
+  FillInSubmissionAnswer,
+  QuestionFormat,
+  TextMatchMode,
+} from 'api/question'
+import { Result, unwrap } from 'result'
 import { fromSubmission, Question } from 'session/quiz'
 import FillInQuestion from 'session/quiz/question/fillin'
+import {
+  maxPatternLength,
+  maxResponseLength,
+} from 'session/quiz/question/textmatch'
 
 describe('FillInQuestion', () => {
   it('should successfully validate a valid Question', () => {
-    let submission = {
+    let submission: FillInSubmission = {
       type: QuestionFormat.FillInFormat,
       answers: [
         { text: 'One', points: 50 },
@@ -93,7 +102,7 @@ describe('FillInQuestion', () => {
 
   describe('body', () => {
     it('should have type FillIn', () => {
-      let submission = {
+      let submission: FillInSubmission = {
         type: QuestionFormat.FillInFormat,
         answers: [
           { text: 'One', points: 50 },
@@ -111,4 +120,249 @@ describe('FillInQuestion', () => {
       expect(question.data.body.type).toBe(QuestionFormat.FillInFormat)
     })
   })
+
+  describe('view', () => {
+    it('should not contain the answers', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [
+              { text: 'One', points: 50 },
+              { text: 'Two', points: 50 },
+            ],
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as FillInQuestion
+
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.FillInFormat,
+      })
+    })
+  })
+
+  describe('matching', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    const create = (answer: FillInSubmissionAnswer) =>
+      unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [answer, { text: 'Other', points: 0 }],
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as FillInQuestion
+
+    const grade = (question: FillInQuestion, answers: string[]) => {
+      question.start()
+      return answers.map((answer, index) =>
+        question.addResponse({
+          type: QuestionFormat.FillInFormat,
+          submitter: index.toString(),
+          answer,
+        })
+      )
+    }
+
+    it('should only ignore case by default', () => {
+      const question = create({ text: 'Photosynthesis', points: 100 })
+      expect(grade(question, ['photosynthesis', 'photosynthesis '])).toEqual([
+        100, 0,
+      ])
+    })
+
+    it('should ignore whitespace when trimmed', () => {
+      const question = create({
+        text: 'cell wall',
+        points: 100,
+        match: TextMatchMode.Trimmed,
+      })
+      expect(grade(question, [' Cell   wall ', 'cellwall'])).toEqual([100, 0])
+    })
+
+    it('should ignore Unicode forms and accents', () => {
+      const normalized = create({
+        text: 'caf\u00e9',
+        points: 100,
+        match: TextMatchMode.Normalized,
+      })
+      expect(grade(normalized, ['cafe\u0301', 'cafe'])).toEqual([100, 0])
+
+      const accents = create({
+        text: 'café',
+        points: 100,
+        match: TextMatchMode.AccentInsensitive,
+      })
+      expect(grade(accents, ['Cafe'])).toEqual([100])
+    })
+
+    it('should allow answers within an edit distance', () => {
+      const question = create({
+        text: 'photosynthesis',
+        points: 100,
+        match: TextMatchMode.EditDistance,
+        maxDistance: 1,
+      })
+      expect(grade(question, ['photosyntesis', 'fotosynthesis'])).toEqual([
+        100, 0,
+      ])
+    })
+
+    it('should match the whole response against patterns', () => {
+      const question = create({
+        text: 'colou?r',
+        points: 100,
+        match: TextMatchMode.Pattern,
+      })
+      expect(grade(question, ['Color', ' colour ', 'colors'])).toEqual([
+        100, 100, 0,
+      ])
+    })
+
+    it('should reject patterns that can backtrack for a long time', () => {
+      ;[
+        '(a+)+$',
+        '(a|aa)*',
+        '((a*)b)+',
+        '(\\w)\\1',
+        '(?=a)a',
+        'a*a*a*a*a*',
+        'a'.repeat(maxPatternLength + 1),
+      ].forEach((text) => {
+        expect(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [
+                { text, points: 100, match: TextMatchMode.Pattern },
+                { text: 'Two', points: 0 },
+              ],
+            },
+            timeLimit: Question.minTimeLimit,
+          })
+        ).toEqual({
+          type: Result.Failure,
+          errors: [
+            {
+              field: 'answers',
+              value: { field: 'text', index: 0, value: text },
+            },
+          ],
+        })
+      })
+    })
+
+    it('should accept patterns with groups and classes', () => {
+      const question = create({
+        text: '(?:the )?mitochondri(a|on)[.!]?',
+        points: 100,
+        match: TextMatchMode.Pattern,
+      })
+      expect(grade(question, ['Mitochondria', 'the mitochondrion!'])).toEqual([
+        100, 100,
+      ])
+    })
+
+    it('should not match responses that are too long', () => {
+      const question = create({
+        text: 'a',
+        points: 100,
+        match: TextMatchMode.EditDistance,
+        maxDistance: maxResponseLength * 2,
+      })
+      expect(
+        grade(question, [
+          'b'.repeat(maxResponseLength),
+          'b'.repeat(maxResponseLength + 1),
+        ])
+      ).toEqual([100, 0])
+    })
+
+    it('should match long exact answers', () => {
+      const text = 'b'.repeat(maxResponseLength + 1)
+      const question = create({ text, points: 100 })
+      expect(grade(question, [text])).toEqual([100])
+    })
+
+    it('should count responses under the answer they match', () => {
+      const question = create({
+        text: 'Photosynthesis',
+        points: 100,
+        match: TextMatchMode.EditDistance,
+      })
+      grade(question, ['photosyntesis', 'Photosynthesis', 'respiration'])
+      expect(question.frequency.toObject()).toEqual({
+        photosynthesis: 2,
+        other: 0,
+        respiration: 1,
+      })
+    })
+
+    it('validate should reject invalid patterns and distances', () => {
+      expect(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [
+              { text: '(', points: 100, match: TextMatchMode.Pattern },
+              { text: 'Two', points: 0, maxDistance: 1 },
+            ],
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ).toEqual({
+        type: Result.Failure,
+        errors: [
+          { field: 'answers', value: { field: 'text', index: 0, value: '(' } },
+          {
+            field: 'answers',
+            value: { field: 'maxDistance', index: 1, value: 1 },
+          },
+        ],
+      })
+    })
+
+    it('validate should reject match that is not a value of TextMatchMode', () => {
+      ;['Pattern', 'toString', '__proto__'].forEach((match) => {
+        expect(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [
+                {
+                  text: 'One',
+                  points: 100,
+                  match: match as unknown as TextMatchMode,
+                },
+                { text: 'Two', points: 0 },
+              ],
+            },
+            timeLimit: Question.minTimeLimit,
+          })
+        ).toEqual({
+          type: Result.Failure,
+          errors: [
+            {
+              field: 'answers',
+              value: { field: 'match', index: 0, value: match },
+            },
+          ],
+        })
+      })
+    })
+  })
 })
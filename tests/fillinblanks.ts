@@ -0,0 +1,192 @@
+import { QuestionFormat, TextMatchMode } from 'api/question'
+import { Result, unwrap } from 'result'
+import { fromSubmission, Question, responseToString } from 'session/quiz'
+import FillInBlanksQuestion from 'session/quiz/question/fillinblanks'
+
+describe('FillInBlanksQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'The ___ is the powerhouse of the ___',
+        body: {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: [
+            {
+              answers: [
+                { text: 'mitochondria', points: 100 },
+                { text: 'mitochondrion', points: 50 },
+              ],
+            },
+            { answers: [{ text: 'cell', points: 100 }] },
+          ],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FillInBlanksQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.totalPoints).toBe(200)
+    expect(question.correctAnswers).toEqual(['mitochondria', 'cell'])
+    expect(question.view.body).toEqual({
+      type: QuestionFormat.FillInBlanksFormat,
+      blanks: 2,
+    })
+  })
+
+  it('validate should reject a different number of blanks than the text has', () => {
+    expect(
+      fromSubmission({
+        text: 'The ___ is the powerhouse of the cell',
+        body: {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: [
+            { answers: [{ text: 'mitochondria', points: 100 }] },
+            { answers: [{ text: 'cell', points: 100 }] },
+          ],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'blanks', value: 2 }],
+    })
+  })
+
+  it('validate should report errors within each blank', () => {
+    expect(
+      fromSubmission({
+        text: 'The ___ is the powerhouse of the ___',
+        body: {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: [
+            { answers: [{ text: 'mitochondria', points: 100 }] },
+            { answers: [{ text: '', points: 100 }] },
+          ],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [
+        {
+          field: 'blanks',
+          value: { index: 1, field: 'answers[0].text', value: '' },
+        },
+      ],
+    })
+  })
+
+  it('should grade each blank', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'The ___ is the powerhouse of the ___',
+        body: {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: [
+            {
+              answers: [
+                {
+                  text: 'mitochondria',
+                  points: 100,
+                  match: TextMatchMode.EditDistance,
+                  maxDistance: 1,
+                },
+                { text: 'mitochondrion', points: 50 },
+              ],
+            },
+            { answers: [{ text: 'cell', points: 100 }] },
+          ],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FillInBlanksQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.FillInBlanksFormat,
+        submitter: 'a',
+        answer: ['Mitochondra', 'Cell'],
+      })
+    ).toBe(200)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.FillInBlanksFormat,
+        submitter: 'b',
+        answer: ['mitochondrion', 'nucleus'],
+      })
+    ).toBe(50)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.FillInBlanksFormat,
+        submitter: 'c',
+        answer: ['nucleus'],
+      })
+    ).toBe(0)
+  })
+
+  it('should track responses for each blank', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'The ___ is the powerhouse of the ___',
+        body: {
+          type: QuestionFormat.FillInBlanksFormat,
+          blanks: [
+            {
+              answers: [
+                {
+                  text: 'mitochondria',
+                  points: 100,
+                  match: TextMatchMode.EditDistance,
+                  maxDistance: 1,
+                },
+                { text: 'mitochondrion', points: 50 },
+              ],
+            },
+            { answers: [{ text: 'cell', points: 100 }] },
+          ],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FillInBlanksQuestion
+    question.start()
+    question.addResponse({
+      type: QuestionFormat.FillInBlanksFormat,
+      submitter: 'a',
+      answer: ['mitochondra', 'cell'],
+    })
+    question.addResponse({
+      type: QuestionFormat.FillInBlanksFormat,
+      submitter: 'b',
+      answer: ['Mitochondria', 'body'],
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.FillInBlanksFormat,
+      blanks: [
+        { correct: 2, frequency: { mitochondria: 2 } },
+        { correct: 1, frequency: { cell: 1, body: 1 } },
+      ],
+    })
+    expect(
+      question.frequencyOf({
+        type: QuestionFormat.FillInBlanksFormat,
+        submitter: 'a',
+        answer: ['mitochondria', 'cell'],
+      })
+    ).toBe(1)
+  })
+
+  it('should describe responses without mixing up blanks with commas', () => {
+    expect(
+      responseToString({
+        type: QuestionFormat.FillInBlanksFormat,
+        submitter: 'a',
+        answer: ['one, two', 'three'],
+      })
+    ).toBe('["one, two","three"]')
+  })
+})
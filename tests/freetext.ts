@@ -0,0 +1,149 @@
+import { QuestionFormat } from 'api/question'
+import { unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import FreeTextQuestion from 'session/quiz/question/freetext'
+import { normalizeWords, stem } from 'session/quiz/question/words'
+
+describe('FreeTextQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'What did you learn today?',
+        body: {
+          type: QuestionFormat.FreeTextFormat,
+          maxLength: 40,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FreeTextQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.isGraded).toBe(false)
+    expect(question.correctAnswers).toEqual([])
+  })
+
+  it('should use the default maximum length', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'What did you learn today?',
+        body: {
+          type: QuestionFormat.FreeTextFormat,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FreeTextQuestion
+    expect(question.maxLength).toBe(Question.defaultFreeTextLength)
+  })
+
+  it('validate should reject invalid maximum lengths', () => {
+    ;[0, Question.maxFreeTextLength + 1].forEach((maxLength) => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'What did you learn today?',
+          body: {
+            type: QuestionFormat.FreeTextFormat,
+            maxLength,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+  })
+
+  it('should reject responses longer than the maximum length', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'What did you learn today?',
+        body: {
+          type: QuestionFormat.FreeTextFormat,
+          maxLength: 40,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FreeTextQuestion
+    question.start()
+    expect(() =>
+      question.addResponse({
+        type: QuestionFormat.FreeTextFormat,
+        submitter: 'a',
+        answer: 'x'.repeat(41),
+      })
+    ).toThrow()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.FreeTextFormat,
+        submitter: 'b',
+        answer: 'x'.repeat(40),
+      })
+    ).toBe(0)
+  })
+
+  it('should count words in responses for a word cloud', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'What did you learn today?',
+        body: {
+          type: QuestionFormat.FreeTextFormat,
+          maxLength: 40,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as FreeTextQuestion
+    question.start()
+    ;[
+      'Computers are computing',
+      'The computer',
+      'Graphs and trees',
+      'the COMPUTER',
+    ].forEach((answer, index) => {
+      question.addResponse({
+        type: QuestionFormat.FreeTextFormat,
+        submitter: index.toString(),
+        answer,
+      })
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.FreeTextFormat,
+      words: [
+        { word: 'computer', count: 3 },
+        { word: 'graphs', count: 1 },
+        { word: 'trees', count: 1 },
+      ],
+    })
+    expect(
+      question.frequencyOf({
+        type: QuestionFormat.FreeTextFormat,
+        submitter: 'b',
+        answer: 'The computer',
+      })
+    ).toBe(3)
+  })
+
+  describe('normalizeWords', () => {
+    it('should lowercase words and remove stop words', () => {
+      expect(
+        normalizeWords("It's the Cell's powerhouse!").map(({ word }) => word)
+      ).toEqual(['cell', 'powerhouse'])
+    })
+
+    it('should stem plural and verb forms together', () => {
+      expect(['run', 'runs', 'running'].map(stem)).toEqual([
+        'run',
+        'run',
+        'run',
+      ])
+      expect(['study', 'studies', 'studied'].map(stem)).toEqual([
+        'study',
+        'study',
+        'study',
+      ])
+      expect(stem('glass')).toBe('glass')
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { QuestionFormat } from 'api/question'
+import { Result, unwrap } from 'result'
+import { parseGift, Question } from 'session/quiz'
+
+describe('parseGift', () => {
+  const timeLimit = Question.minTimeLimit
+
+  it('should parse multiple choice questions', () => {
+    const questions = unwrap(
+      parseGift(
+        '// comment\n::Q1:: What is 2 + 2? {=Four ~Three ~%50%Five#close}',
+        timeLimit
+      )
+    )
+    expect(questions).toEqual([
+      {
+        text: 'What is 2 + 2?',
+        body: {
+          type: QuestionFormat.MultipleChoiceFormat,
+          choices: [
+            { text: 'Four', points: 100 },
+            { text: 'Three', points: 0 },
+            { text: 'Five', points: 50 },
+          ],
+          answer: 0,
+        },
+        timeLimit,
+      },
+    ])
+  })
+
+  it('should parse short answer questions', () => {
+    const questions = unwrap(
+      parseGift('Name a primary color. {=red =blue =%50%yellow}', timeLimit)
+    )
+    expect(questions[0]!.body).toEqual({
+      type: QuestionFormat.FillInFormat,
+      answers: [
+        { text: 'red', points: 100 },
+        { text: 'blue', points: 100 },
+        { text: 'yellow', points: 50 },
+      ],
+    })
+  })
+
+  it('should parse true/false questions', () => {
+    const questions = unwrap(parseGift('The sky is green. {F}', timeLimit))
+    expect(questions[0]!.body).toEqual({
+      type: QuestionFormat.TrueFalseFormat,
+      answer: false,
+      points: 100,
+    })
+  })
+
+  it('should unescape special characters', () => {
+    const questions = unwrap(
+      parseGift('What is \\{ called? {=A brace \\= curly ~Other}', timeLimit)
+    )
+    expect(questions[0]!.text).toBe('What is { called?')
+    expect(questions[0]!.body).toMatchObject({
+      choices: [{ text: 'A brace = curly' }, { text: 'Other' }],
+    })
+  })
+
+  it('should report errors with the line of the question', () => {
+    const result = parseGift(
+      [
+        'Valid {T}',
+        '',
+        '// comment',
+        'No answers',
+        '',
+        'Numeric {#3:1}',
+        '',
+        'Too many {=A ~B ~C ~D ~E}',
+      ].join('\n'),
+      timeLimit
+    )
+    expect(result.type === Result.Failure && result.errors).toEqual([
+      { field: 'line', value: { index: 4, field: 'answers', value: null } },
+      { field: 'line', value: { index: 6, field: 'type', value: '#3:1' } },
+      { field: 'line', value: { index: 8, field: 'choices', value: 5 } },
+    ])
+  })
+})
@@ -0,0 +1,197 @@
+import { QuestionFormat } from 'api/question'
+import { Result, unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import MatchingQuestion from 'session/quiz/question/matching'
+
+describe('MatchingQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MatchingFormat,
+          pairs: [
+            { term: 'France', definition: 'Paris' },
+            { term: 'Japan', definition: 'Tokyo' },
+            { term: 'Peru', definition: 'Lima' },
+            { term: 'Chad', definition: "N'Djamena" },
+          ],
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MatchingQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.correctAnswers).toEqual([
+      'France: Paris',
+      'Japan: Tokyo',
+      'Peru: Lima',
+      "Chad: N'Djamena",
+    ])
+  })
+
+  it('validate should report errors for each pair', () => {
+    expect(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MatchingFormat,
+          pairs: [
+            { term: 'France', definition: 'Paris' },
+            { term: '', definition: 'Tokyo' },
+            { term: 'Peru', definition: 'Paris' },
+          ],
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [
+        { field: 'pairs', value: { field: 'term', index: 1, value: '' } },
+        {
+          field: 'pairs',
+          value: { field: 'definition', index: 2, value: 'Paris' },
+        },
+      ],
+    })
+  })
+
+  it('validate should reject too few pairs', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MatchingFormat,
+          pairs: [{ term: 'France', definition: 'Paris' }],
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('should give partial credit for each correct pair', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MatchingFormat,
+          pairs: [
+            { term: 'France', definition: 'Paris' },
+            { term: 'Japan', definition: 'Tokyo' },
+            { term: 'Peru', definition: 'Lima' },
+            { term: 'Chad', definition: "N'Djamena" },
+          ],
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MatchingQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MatchingFormat,
+        submitter: 'a',
+        answer: [0, 1, 2, 3].map((pair) =>
+          question.definitionOrder.indexOf(pair)
+        ),
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MatchingFormat,
+        submitter: 'b',
+        answer: [0, 1, 3, 2].map((pair) =>
+          question.definitionOrder.indexOf(pair)
+        ),
+      })
+    ).toBe(50)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MatchingFormat,
+        submitter: 'c',
+        answer: [1, 0, 3, 2].map((pair) =>
+          question.definitionOrder.indexOf(pair)
+        ),
+      })
+    ).toBe(0)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MatchingFormat,
+        submitter: 'd',
+        answer: [question.definitionOrder.indexOf(0)],
+      })
+    ).toBe(25)
+  })
+
+  it('should count correct matches for each pair', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MatchingFormat,
+          pairs: [
+            { term: 'France', definition: 'Paris' },
+            { term: 'Japan', definition: 'Tokyo' },
+            { term: 'Peru', definition: 'Lima' },
+            { term: 'Chad', definition: "N'Djamena" },
+          ],
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MatchingQuestion
+    question.start()
+    ;[
+      [0, 1, 2, 3],
+      [0, 1, 3, 2],
+      [1, 0, 2, 3],
+    ].forEach((matches, index) => {
+      question.addResponse({
+        type: QuestionFormat.MatchingFormat,
+        submitter: index.toString(),
+        answer: matches.map((pair) => question.definitionOrder.indexOf(pair)),
+      })
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.MatchingFormat,
+      pairs: [2, 2, 2, 2],
+    })
+  })
+
+  describe('view', () => {
+    it('should show the definitions in the display order', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MatchingFormat,
+            pairs: [
+              { term: 'France', definition: 'Paris' },
+              { term: 'Japan', definition: 'Tokyo' },
+              { term: 'Peru', definition: 'Lima' },
+              { term: 'Chad', definition: "N'Djamena" },
+            ],
+            points: 100,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MatchingQuestion
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.MatchingFormat,
+        terms: ['France', 'Japan', 'Peru', 'Chad'],
+        definitions: question.definitionOrder.map(
+          (index) => question.pairs[index]!.definition
+        ),
+      })
+    })
+  })
+})
@@ -1,11 +1,15 @@
-import { QuestionFormat } from 'api/question'
+import {
+  MultipleChoice,
+  MultipleChoiceSubmission,
+  QuestionFormat,
+} from 'api/question'
 import { unwrap } from 'result'
-import { fromSubmission, Question } from 'session/quiz'
+import { fromSerialized, fromSubmission, Question } from 'session/quiz'
 import MultipleChoiceQuestion from 'session/quiz/question/multiplechoice'
 
 describe('MultipleChoiceQuestion', () => {
   it('should successfully validate a valid Question', () => {
-    let submission = {
+    let submission: MultipleChoiceSubmission = {
       type: QuestionFormat.MultipleChoiceFormat,
       choices: [
         { text: 'One', points: 50 },
@@ -98,7 +102,7 @@ describe('MultipleChoiceQuestion', () => {
 
   describe('body', () => {
     it('should have type FillIn', () => {
-      let submission = {
+      let submission: MultipleChoiceSubmission = {
         type: QuestionFormat.MultipleChoiceFormat,
         choices: [
           { text: 'One', points: 50 },
@@ -117,4 +121,166 @@ describe('MultipleChoiceQuestion', () => {
       expect(question.data.body.type).toBe(QuestionFormat.MultipleChoiceFormat)
     })
   })
+
+  describe('maxPoints', () => {
+    it('should be the points of the answer', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'One', points: 40 },
+              { text: 'Two', points: 60 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultipleChoiceQuestion
+
+      expect(question.maxPoints).toBe(40)
+    })
+  })
+
+  describe('view', () => {
+    it('should not contain the answer or choice points', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'One', points: 50 },
+              { text: 'Two', points: 50 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultipleChoiceQuestion
+
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.MultipleChoiceFormat,
+        choices: [{ text: 'One' }, { text: 'Two' }],
+      })
+    })
+  })
+
+  describe('shuffle', () => {
+    let question: MultipleChoiceQuestion
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+      question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'One', points: 100 },
+              { text: 'Two', points: 0 },
+              { text: 'Three', points: 0 },
+              { text: 'Four', points: 0 },
+            ],
+            answer: 0,
+            shuffle: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultipleChoiceQuestion
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    const users = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+
+    const choicesFor = (user: string) =>
+      (question.viewFor(user).body as { choices: { text: string }[] }).choices
+
+    it('should show each user a stable order of the choices', () => {
+      users.forEach((user) => {
+        expect(choicesFor(user)).toEqual(choicesFor(user))
+        expect(
+          choicesFor(user)
+            .map((choice) => choice.text)
+            .sort()
+        ).toEqual(['Four', 'One', 'Three', 'Two'])
+      })
+      const orders = new Set(
+        users.map((user) => question.orderFor(user).join())
+      )
+      expect(orders.size).toBeGreaterThan(1)
+    })
+
+    it('should not give the same orders to another copy of the question', () => {
+      const other = new MultipleChoiceQuestion(
+        'Question',
+        question.body as MultipleChoice,
+        Question.minTimeLimit
+      )
+      expect(users.map((user) => other.orderFor(user).join())).not.toEqual(
+        users.map((user) => question.orderFor(user).join())
+      )
+    })
+
+    it('should keep the order when the question is restored', () => {
+      const copy = fromSerialized(question.serialize())!
+      users.forEach((user) => {
+        expect(copy.viewFor(user)).toEqual(question.viewFor(user))
+      })
+    })
+
+    it('should grade the choice at the index the user saw', () => {
+      question.start()
+      users.forEach((user) => {
+        const answer = choicesFor(user).findIndex(
+          (choice) => choice.text === 'One'
+        )
+        const response = {
+          type: QuestionFormat.MultipleChoiceFormat as const,
+          submitter: user,
+          answer,
+        }
+        expect(question.addResponse(response)).toBe(100)
+        expect(question.canonicalResponse(response)).toEqual({
+          ...response,
+          answer: 0,
+        })
+      })
+      expect(question.frequency.get('0')).toBe(users.length)
+    })
+
+    it('should reject answers outside the choices', () => {
+      question.start()
+      ;[-1, 4, 1.5].forEach((answer) => {
+        expect(() =>
+          question.addResponse({
+            type: QuestionFormat.MultipleChoiceFormat,
+            submitter: 'a',
+            answer,
+          })
+        ).toThrow()
+      })
+      expect(question.numResponses).toBe(0)
+      expect(question.frequency.toObject()).toEqual({
+        '0': 0,
+        '1': 0,
+        '2': 0,
+        '3': 0,
+      })
+    })
+
+    it('should not shuffle unless asked to', () => {
+      question = new MultipleChoiceQuestion(
+        'Question',
+        { ...(question.body as MultipleChoice), shuffle: false },
+        Question.minTimeLimit
+      )
+      expect(question.viewFor('a')).toEqual(question.view)
+      expect(question.body).not.toHaveProperty('shuffle')
+    })
+  })
 })
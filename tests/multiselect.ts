@@ -0,0 +1,346 @@
+import {
+  MultiSelectScoring,
+  MultiSelectView,
+  QuestionFormat,
+} from 'api/question'
+import { unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import MultiSelectQuestion from 'session/quiz/question/multiselect'
+
+describe('MultiSelectQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 2],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MultiSelectQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.correctAnswers).toEqual(['One', 'Three'])
+  })
+
+  it('validate should reject duplicate or out of range answers', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 0, 3],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('validate should reject questions without answers', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('validate should reject scoring that is not a value of MultiSelectScoring', () => {
+    ;['PartialCredit', 'toString', '__proto__'].forEach((scoring) => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultiSelectFormat,
+            choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            answers: [0, 2],
+            points: 100,
+            scoring: scoring as unknown as MultiSelectScoring,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+  })
+
+  it('should grade all or nothing', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 2],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MultiSelectQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'a',
+        answer: [2, 0],
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'b',
+        answer: [0],
+      })
+    ).toBe(0)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'c',
+        answer: [0, 1, 2],
+      })
+    ).toBe(0)
+  })
+
+  it('should give partial credit with deductions for wrong choices', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 2],
+          points: 100,
+          scoring: MultiSelectScoring.PartialCredit,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MultiSelectQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'a',
+        answer: [0, 2],
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'b',
+        answer: [0],
+      })
+    ).toBe(50)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'c',
+        answer: [0, 1],
+      })
+    ).toBe(0)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.MultiSelectFormat,
+        submitter: 'd',
+        answer: [1],
+      })
+    ).toBe(0)
+  })
+
+  it('should reject duplicate or out of range choices', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 2],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MultiSelectQuestion
+    question.start()
+    ;[[0, 0], [0, 3], [-1], [0.5]].forEach((answer) => {
+      expect(() =>
+        question.addResponse({
+          type: QuestionFormat.MultiSelectFormat,
+          submitter: 'a',
+          answer,
+        })
+      ).toThrow()
+    })
+    expect(question.numResponses).toBe(0)
+  })
+
+  it('should count how often each choice is selected', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.MultiSelectFormat,
+          choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          answers: [0, 2],
+          points: 100,
+          scoring: MultiSelectScoring.AllOrNothing,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as MultiSelectQuestion
+    question.start()
+    question.addResponse({
+      type: QuestionFormat.MultiSelectFormat,
+      submitter: 'a',
+      answer: [0, 2],
+    })
+    question.addResponse({
+      type: QuestionFormat.MultiSelectFormat,
+      submitter: 'b',
+      answer: [2],
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.MultiSelectFormat,
+      choices: [1, 0, 2],
+    })
+    expect(question.frequency.toObject()).toEqual({ '0,2': 1, '2': 1 })
+  })
+
+  describe('view', () => {
+    it('should not contain the answers', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultiSelectFormat,
+            choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            answers: [0, 2],
+            points: 100,
+            scoring: MultiSelectScoring.AllOrNothing,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultiSelectQuestion
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.MultiSelectFormat,
+        choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+      })
+    })
+  })
+
+  describe('shuffle', () => {
+    it('validate should reject shuffle that is not a boolean', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultiSelectFormat,
+            choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            answers: [0, 2],
+            points: 100,
+            scoring: MultiSelectScoring.AllOrNothing,
+            shuffle: 'yes' as unknown as boolean,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+
+    it('should show each user a stable order of the choices', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultiSelectFormat,
+            choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            answers: [0, 2],
+            points: 100,
+            scoring: MultiSelectScoring.AllOrNothing,
+            shuffle: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultiSelectQuestion
+      let users = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+      users.forEach((user) => {
+        let texts = (question.viewFor(user).body as MultiSelectView).choices
+        expect(
+          (question.viewFor(user).body as MultiSelectView).choices
+        ).toEqual(texts)
+        expect(texts.map((choice) => choice.text).sort()).toEqual([
+          'One',
+          'Three',
+          'Two',
+        ])
+      })
+      expect(
+        new Set(users.map((user) => question.orderFor(user).join())).size
+      ).toBeGreaterThan(1)
+    })
+
+    it('should grade the choices at the indices the user saw', () => {
+      jest.useFakeTimers()
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultiSelectFormat,
+            choices: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            answers: [0, 2],
+            points: 100,
+            scoring: MultiSelectScoring.AllOrNothing,
+            shuffle: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as MultiSelectQuestion
+      question.start()
+      let users = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+      users.forEach((user) => {
+        let texts = (
+          question.viewFor(user).body as MultiSelectView
+        ).choices.map((choice) => choice.text)
+        let answer = [texts.indexOf('One'), texts.indexOf('Three')]
+        expect(
+          question.addResponse({
+            type: QuestionFormat.MultiSelectFormat,
+            submitter: user,
+            answer,
+          })
+        ).toBe(100)
+        expect(
+          question.canonicalResponse({
+            type: QuestionFormat.MultiSelectFormat,
+            submitter: user,
+            answer,
+          })
+        ).toMatchObject({ answer: [0, 2] })
+      })
+      expect(question.frequency.toObject()).toEqual({ '0,2': users.length })
+    })
+  })
+})
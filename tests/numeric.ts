@@ -0,0 +1,293 @@
+import { QuestionFormat, ToleranceType } from 'api/question'
+import { unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import NumericQuestion from 'session/quiz/question/numeric'
+
+describe('NumericQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 9.81,
+          tolerance: 0.05,
+          toleranceType: ToleranceType.Absolute,
+          units: 'm/s^2',
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.correctAnswers).toEqual(['9.81 ± 0.05 m/s^2'])
+  })
+
+  it('validate should reject negative tolerances', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 9.81,
+          tolerance: -1,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('validate should reject tolerance types that are not values of ToleranceType', () => {
+    ;['Relative', 'toString', '__proto__'].forEach((toleranceType) => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.NumericFormat,
+            answer: 9.81,
+            tolerance: 0.05,
+            toleranceType: toleranceType as unknown as ToleranceType,
+            points: 100,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+  })
+
+  it('validate should reject questions without an answer', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          tolerance: 0.05,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('should accept responses within an absolute tolerance', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 9.81,
+          tolerance: 0.05,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'a',
+        answer: 9.86,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'b',
+        answer: 9.76,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'c',
+        answer: 9.87,
+      })
+    ).toBe(0)
+  })
+
+  it('should accept responses within a relative tolerance', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 200,
+          tolerance: 5,
+          toleranceType: ToleranceType.Relative,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'a',
+        answer: 210,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'b',
+        answer: 189,
+      })
+    ).toBe(0)
+  })
+
+  it('should bucket responses into a histogram', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 9.81,
+          tolerance: 0.05,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    question.start()
+    ;[9.8, 9.82, 9.9, 9.5].forEach((answer, index) => {
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: index.toString(),
+        answer,
+      })
+    })
+    expect(
+      question.frequencyOf({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'e',
+        answer: 9.79,
+      })
+    ).toBe(2)
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.NumericFormat,
+      buckets: [
+        { min: 9.46, max: 9.56, count: 1 },
+        { min: 9.76, max: 9.86, count: 2 },
+        { min: 9.86, max: 9.96, count: 1 },
+      ],
+    })
+  })
+
+  it('should count both ends of the correct range as correct', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 10,
+          tolerance: 0.5,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'a',
+        answer: 9.5,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'b',
+        answer: 10.5,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: 'c',
+        answer: 10.6,
+      })
+    ).toBe(0)
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.NumericFormat,
+      buckets: [
+        { min: 9.5, max: 10.5, count: 2 },
+        { min: 10.5, max: 11.5, count: 1 },
+      ],
+    })
+  })
+
+  it('should not give each response its own bucket without a tolerance', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.NumericFormat,
+          answer: 100,
+          toleranceType: ToleranceType.Absolute,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as NumericQuestion
+    question.start()
+    ;[100, 100.2, 100.7, 98.5, 98.1].forEach((answer, index) => {
+      question.addResponse({
+        type: QuestionFormat.NumericFormat,
+        submitter: index.toString(),
+        answer,
+      })
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.NumericFormat,
+      buckets: [
+        { min: 98, max: 99, count: 2 },
+        { min: 100, max: 100, count: 1 },
+        { min: 100, max: 101, count: 2 },
+      ],
+    })
+  })
+
+  describe('view', () => {
+    it('should only contain the units', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.NumericFormat,
+            answer: 9.81,
+            tolerance: 0.05,
+            toleranceType: ToleranceType.Absolute,
+            units: 'm/s^2',
+            points: 100,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as NumericQuestion
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.NumericFormat,
+        units: 'm/s^2',
+      })
+    })
+  })
+})
@@ -0,0 +1,360 @@
+import { OrderingScoring, QuestionFormat } from 'api/question'
+import { Result, unwrap } from 'result'
+import { fromSerialized, fromSubmission, Question } from 'session/quiz'
+import OrderingQuestion from 'session/quiz/question/ordering'
+
+describe('OrderingQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.correctAnswers).toEqual(['One, Two, Three'])
+  })
+
+  it('validate should reject too few items', () => {
+    expect(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'items', value: 1 }],
+    })
+  })
+
+  it('validate should reject scoring that is not a value of OrderingScoring', () => {
+    ;['PartialCredit', 'toString', '__proto__'].forEach((scoring) => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: scoring as unknown as OrderingScoring,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+  })
+
+  it('validate should reject items without text', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, {}],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('should never show items in the correct order', () => {
+    for (let i = 0; i < 20; ++i) {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: OrderingScoring.ExactMatch,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as OrderingQuestion
+      expect(question.displayOrder).not.toEqual([0, 1, 2])
+    }
+  })
+
+  it('should grade exact matches', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: 'a',
+        answer: [0, 1, 2].map((item) => question.displayOrder.indexOf(item)),
+      })
+    ).toBe(300)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: 'b',
+        answer: [0, 2, 1].map((item) => question.displayOrder.indexOf(item)),
+      })
+    ).toBe(0)
+  })
+
+  it('should give partial credit for items in the correct position', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.PartialCredit,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: 'a',
+        answer: [0, 1, 2].map((item) => question.displayOrder.indexOf(item)),
+      })
+    ).toBe(300)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: 'b',
+        answer: [0, 2, 1].map((item) => question.displayOrder.indexOf(item)),
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: 'c',
+        answer: [2, 0, 1].map((item) => question.displayOrder.indexOf(item)),
+      })
+    ).toBe(0)
+  })
+
+  it('should reject responses that are not a permutation of the items', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    question.start()
+    ;[
+      [0, 0, 1],
+      [0, 1],
+      [0, 1, 2, 3],
+      [0, 1, 3],
+      [0, 1, 1.5],
+      [-1, 0, 1],
+    ].forEach((answer) => {
+      expect(() =>
+        question.addResponse({
+          type: QuestionFormat.OrderingFormat,
+          submitter: 'a',
+          answer,
+        })
+      ).toThrow()
+    })
+    expect(question.numResponses).toBe(0)
+  })
+
+  it('should report the most common orderings', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    question.start()
+    ;[
+      [2, 1, 0],
+      [0, 1, 2],
+      [2, 1, 0],
+    ].forEach((order, index) => {
+      question.addResponse({
+        type: QuestionFormat.OrderingFormat,
+        submitter: index.toString(),
+        answer: order.map((item) => question.displayOrder.indexOf(item)),
+      })
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.OrderingFormat,
+      orderings: [
+        { items: ['Three', 'Two', 'One'], count: 2 },
+        { items: ['One', 'Two', 'Three'], count: 1 },
+      ],
+    })
+  })
+
+  it('should keep the order items are shown in when serialized', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.OrderingFormat,
+          items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+          points: 300,
+          scoring: OrderingScoring.ExactMatch,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as OrderingQuestion
+    let copy = fromSerialized(question.serialize()) as OrderingQuestion
+    expect(copy.displayOrder).toEqual(question.displayOrder)
+  })
+
+  describe('view', () => {
+    it('should show the items in the display order', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: OrderingScoring.ExactMatch,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as OrderingQuestion
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.OrderingFormat,
+        items: question.displayOrder.map((index) => ({
+          text: ['One', 'Two', 'Three'][index],
+        })),
+      })
+    })
+  })
+
+  describe('shuffle', () => {
+    it('validate should reject shuffle that is not a boolean', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: OrderingScoring.ExactMatch,
+            shuffle: 'yes' as unknown as boolean,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      expect(question).toBeUndefined()
+    })
+
+    it('should show each user a stable order that is never correct', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: OrderingScoring.ExactMatch,
+            shuffle: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as OrderingQuestion
+      ;['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].forEach((user) => {
+        expect(question.displayOrderFor(user)).toEqual(
+          question.displayOrderFor(user)
+        )
+        expect(question.displayOrderFor(user)).not.toEqual([0, 1, 2])
+        expect(question.viewFor(user).body).toEqual({
+          type: QuestionFormat.OrderingFormat,
+          items: question.displayOrderFor(user).map((index) => ({
+            text: ['One', 'Two', 'Three'][index],
+          })),
+        })
+      })
+    })
+
+    it('should grade the positions the user saw', () => {
+      jest.useFakeTimers()
+      let question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.OrderingFormat,
+            items: [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }],
+            points: 300,
+            scoring: OrderingScoring.ExactMatch,
+            shuffle: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as OrderingQuestion
+      question.start()
+      ;['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].forEach((user) => {
+        let shown = question.displayOrderFor(user)
+        let answer = [0, 1, 2].map((item) => shown.indexOf(item))
+        expect(
+          question.addResponse({
+            type: QuestionFormat.OrderingFormat,
+            submitter: user,
+            answer,
+          })
+        ).toBe(300)
+        expect(
+          question.canonicalResponse({
+            type: QuestionFormat.OrderingFormat,
+            submitter: user,
+            answer,
+          })
+        ).toMatchObject({
+          answer: [0, 1, 2].map((item) => question.displayOrder.indexOf(item)),
+        })
+      })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { PollSubmission, QuestionFormat } from 'api/question'
+import { Result, unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import PollQuestion from 'session/quiz/question/poll'
+
+describe('PollQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a poll without points or answers', () => {
+    let submission: PollSubmission = {
+      type: QuestionFormat.PollFormat,
+      choices: [{ text: 'Arrays' }, { text: 'Graphs' }, { text: 'Trees' }],
+    }
+    let question = unwrap(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: submission,
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as PollQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.totalPoints).toBe(0)
+    expect(question.isGraded).toBe(false)
+    expect(question.correctAnswers).toEqual([])
+    expect(question.body).toEqual({
+      type: QuestionFormat.PollFormat,
+      choices: submission.choices,
+      multiple: false,
+      broadcast: false,
+    })
+  })
+
+  it('validate should report choices without text', () => {
+    expect(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: {
+          type: QuestionFormat.PollFormat,
+          choices: [{ text: 'Arrays' }, { text: '' }],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [
+        { field: 'choices', value: { field: 'text', index: 1, value: '' } },
+      ],
+    })
+  })
+
+  it('validate should reject too few choices', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: {
+          type: QuestionFormat.PollFormat,
+          choices: [{ text: 'Arrays' }],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('should not give points for any response', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: {
+          type: QuestionFormat.PollFormat,
+          choices: [{ text: 'Arrays' }, { text: 'Graphs' }, { text: 'Trees' }],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as PollQuestion
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.PollFormat,
+        submitter: 'a',
+        answer: [0],
+      })
+    ).toBe(0)
+    expect(question.firstCorrect).toBeUndefined()
+  })
+
+  it('should count how often each choice is selected', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: {
+          type: QuestionFormat.PollFormat,
+          choices: [{ text: 'Arrays' }, { text: 'Graphs' }, { text: 'Trees' }],
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as PollQuestion
+    question.start()
+    question.addResponse({
+      type: QuestionFormat.PollFormat,
+      submitter: 'a',
+      answer: [1],
+    })
+    question.addResponse({
+      type: QuestionFormat.PollFormat,
+      submitter: 'b',
+      answer: [1],
+    })
+    question.addResponse({
+      type: QuestionFormat.PollFormat,
+      submitter: 'c',
+      answer: [0, 2],
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.PollFormat,
+      choices: [0, 2, 0],
+    })
+    expect(question.frequency.toObject()).toEqual({ '1': 2 })
+  })
+
+  it('should allow several choices when multiple is set', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'Which topic should we review?',
+        body: {
+          type: QuestionFormat.PollFormat,
+          choices: [{ text: 'Arrays' }, { text: 'Graphs' }, { text: 'Trees' }],
+          multiple: true,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as PollQuestion
+    question.start()
+    question.addResponse({
+      type: QuestionFormat.PollFormat,
+      submitter: 'a',
+      answer: [2, 0],
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.PollFormat,
+      choices: [1, 0, 1],
+    })
+  })
+
+  describe('view', () => {
+    it('should not contain whether results are broadcast', () => {
+      let question = unwrap(
+        fromSubmission({
+          text: 'Which topic should we review?',
+          body: {
+            type: QuestionFormat.PollFormat,
+            choices: [
+              { text: 'Arrays' },
+              { text: 'Graphs' },
+              { text: 'Trees' },
+            ],
+            broadcast: true,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      ) as PollQuestion
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.PollFormat,
+        choices: [{ text: 'Arrays' }, { text: 'Graphs' }, { text: 'Trees' }],
+        multiple: false,
+      })
+    })
+  })
+})
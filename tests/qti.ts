@@ -0,0 +1,180 @@
+import { QuestionFormat } from 'api/question'
+import { QuizDocument } from 'api/quiz'
+import { Result, unwrap } from 'result'
+import {
+  fromQtiPackage,
+  fromQuizDocument,
+  Question,
+  quizDocumentVersion,
+  toQtiPackage,
+} from 'session/quiz'
+import { maxXmlDepth, parseXml } from 'session/quiz/formats/xml'
+
+describe('QTI', () => {
+  const document: QuizDocument = {
+    version: quizDocumentVersion,
+    title: 'Quiz & "Test"',
+    questions: [
+      {
+        text: 'Is 1 < 2?',
+        body: {
+          type: QuestionFormat.MultipleChoiceFormat,
+          choices: [
+            { text: 'Yes', points: 100 },
+            { text: 'No', points: 0 },
+          ],
+          answer: 0,
+        },
+        timeLimit: Question.minTimeLimit,
+      },
+      {
+        text: 'Name a primary color',
+        body: {
+          type: QuestionFormat.FillInFormat,
+          answers: [
+            { text: 'red', points: 100 },
+            { text: 'yellow', points: 50 },
+          ],
+        },
+        timeLimit: Question.maxTimeLimit,
+      },
+    ],
+  }
+
+  describe('toQtiPackage', () => {
+    it('should create a manifest, test, and item per question', () => {
+      const files = toQtiPackage(unwrap(fromQuizDocument(document)))
+      expect(files.map((file) => file.path)).toEqual([
+        'imsmanifest.xml',
+        'assessment.xml',
+        'items/item-1.xml',
+        'items/item-2.xml',
+      ])
+      expect(files[2]!.content).toContain('<choiceInteraction')
+      expect(files[2]!.content).toContain('Is 1 &lt; 2?')
+      expect(files[3]!.content).toContain('<textEntryInteraction')
+    })
+
+    it('should leave out questions with no equivalent item', () => {
+      const files = toQtiPackage(
+        unwrap(
+          fromQuizDocument({
+            ...document,
+            questions: [
+              {
+                text: 'How clear were the lectures?',
+                body: {
+                  type: QuestionFormat.ScaleFormat,
+                  min: 1,
+                  max: 5,
+                  minLabel: null,
+                  maxLabel: null,
+                },
+                timeLimit: Question.minTimeLimit,
+              },
+              document.questions[0]!,
+            ],
+          })
+        )
+      )
+      expect(files.map((file) => file.path)).toEqual([
+        'imsmanifest.xml',
+        'assessment.xml',
+        'items/item-1.xml',
+      ])
+      expect(files[2]!.content).toContain('Is 1 &lt; 2?')
+    })
+  })
+
+  describe('fromQtiPackage', () => {
+    it('should read the questions that were exported', () => {
+      const files = toQtiPackage(unwrap(fromQuizDocument(document)))
+      expect(unwrap(fromQtiPackage(files))).toEqual(document)
+    })
+
+    it('should read items without a test in file order', () => {
+      const files = toQtiPackage(unwrap(fromQuizDocument(document))).slice(2)
+      const questions = unwrap(fromQtiPackage(files.reverse())).questions
+      expect(questions.map((question) => question.body!.type)).toEqual([
+        QuestionFormat.FillInFormat,
+        QuestionFormat.MultipleChoiceFormat,
+      ])
+    })
+
+    it('should give the correct response full points if there is no mapping', () => {
+      const result = fromQtiPackage([
+        {
+          path: 'item.xml',
+          content: `<?xml version="1.0"?>
+<qti:assessmentItem xmlns:qti="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="item">
+  <qti:responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <qti:correctResponse><qti:value>B</qti:value></qti:correctResponse>
+  </qti:responseDeclaration>
+  <qti:itemBody>
+    <qti:p>Pick <qti:b>B</qti:b></qti:p>
+    <qti:choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+      <qti:simpleChoice identifier="A">A</qti:simpleChoice>
+      <qti:simpleChoice identifier="B"><![CDATA[B & C]]></qti:simpleChoice>
+    </qti:choiceInteraction>
+  </qti:itemBody>
+</qti:assessmentItem>`,
+        },
+      ])
+      expect(unwrap(result).questions[0]).toEqual({
+        text: 'Pick B',
+        body: {
+          type: QuestionFormat.MultipleChoiceFormat,
+          choices: [
+            { text: 'A', points: 0 },
+            { text: 'B & C', points: 100 },
+          ],
+          answer: 1,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    })
+
+    it('should reject files nested too deeply', () => {
+      const nested = (depth: number) =>
+        '<a>'.repeat(depth) + '</a>'.repeat(depth)
+      expect(parseXml(nested(maxXmlDepth))).not.toBeUndefined()
+      expect(parseXml(nested(maxXmlDepth + 1))).toBeUndefined()
+      expect(
+        fromQtiPackage([
+          {
+            path: 'deep.xml',
+            content: `<assessmentItem><responseDeclaration/><itemBody>${nested(
+              20000
+            )}</itemBody></assessmentItem>`,
+          },
+        ])
+      ).toEqual({
+        type: Result.Failure,
+        errors: [{ field: 'files', value: 'deep.xml' }],
+      })
+    })
+
+    it('should report malformed files and unsupported items', () => {
+      expect(
+        fromQtiPackage([{ path: 'bad.xml', content: '<a><b></a>' }])
+      ).toEqual({
+        type: Result.Failure,
+        errors: [{ field: 'files', value: 'bad.xml' }],
+      })
+
+      const result = fromQtiPackage([
+        {
+          path: 'item.xml',
+          content:
+            '<assessmentItem><responseDeclaration/><itemBody><orderInteraction/></itemBody></assessmentItem>',
+        },
+      ])
+      expect(result.type === Result.Failure && result.errors).toEqual([
+        {
+          field: 'items',
+          value: { index: 0, field: 'interaction', value: 'orderInteraction' },
+        },
+      ])
+    })
+  })
+})
@@ -1,6 +1,8 @@
+import { Rating } from 'api/feedback'
 import { FillInResponse, QuestionFormat } from 'api/question'
 import { unwrap } from 'result'
 import { fromSubmission, Question } from 'session/quiz'
+import { Feedback } from 'session/quiz/question/feedback'
 import FillInQuestion from 'session/quiz/question/fillin'
 
 const _setTimeoutReal = global.setTimeout
@@ -174,4 +176,37 @@ describe('Question', () => {
       )
     })
   })
+
+  describe('clone', () => {
+    it('should copy responses, feedback, and index', () => {
+      const question = unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [
+              { text: 'One', points: 100 },
+              { text: 'Two', points: 0 },
+            ],
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+      question.index = 2
+      question.start()
+      question.addResponse({
+        type: QuestionFormat.FillInFormat,
+        answer: 'One',
+        submitter: 'User',
+      })
+      question.addFeedback('User', new Feedback(Rating.Easy, 'Easy'))
+
+      const copy = question.clone()
+      expect(copy.index).toBe(2)
+      expect(copy.isStarted).toBe(true)
+      expect(copy.pointsFor('User')).toBe(100)
+      expect(copy.firstCorrect).toBe('User')
+      expect(copy.feedback.get('User')?.message).toBe('Easy')
+    })
+  })
 })
@@ -5,6 +5,7 @@ import {
   QuestionSubmission,
   QuestionSubmissionBodyType,
 } from 'api/question'
+import { Set } from 'immutable'
 import { nanoid } from 'nanoid'
 import { unwrap } from 'result'
 import { Quiz } from 'session/quiz'
@@ -113,6 +114,109 @@ describe('Quiz', () => {
 
       expect(quiz.removeQuestion(quiz.numQuestions + 1)).toBeUndefined()
     })
+
+    it('should keep pools pointing at the same questions', () => {
+      for (let i = 0; i < 4; ++i) {
+        quiz.addQuestion(randomFillInQuestion())
+      }
+      quiz.setPools([
+        { questions: [0, 1], pick: 2 },
+        { questions: [2, 3], pick: 1 },
+      ])
+
+      quiz.removeQuestion(1)
+      expect(quiz.pools.toArray()).toEqual([
+        { questions: [0], pick: 1 },
+        { questions: [1, 2], pick: 1 },
+      ])
+    })
+  })
+
+  describe('draw', () => {
+    let questions: Question[]
+    beforeEach(() => {
+      questions = [...Array(6)].map(() => randomFillInQuestion())
+      questions.forEach((question) => quiz.addQuestion(question))
+    })
+
+    it('should keep the order without pools or shuffling', () => {
+      quiz.draw()
+      expect(quiz.questions.toArray()).toEqual(questions)
+    })
+
+    it('should pick the number of questions asked from each pool', () => {
+      quiz.setPools([
+        { questions: [1, 2, 3], pick: 2 },
+        { questions: [4, 5], pick: 1 },
+      ])
+      quiz.draw()
+
+      const drawn = quiz.questions.toArray()
+      expect(drawn).toHaveLength(4)
+      expect(drawn[0]).toBe(questions[0])
+      expect(
+        drawn.filter((question) => questions.slice(1, 4).includes(question))
+      ).toHaveLength(2)
+      expect(
+        drawn.filter((question) => questions.slice(4).includes(question))
+      ).toHaveLength(1)
+
+      // The questions asked keep their relative order
+      const positions = drawn.map((question) => questions.indexOf(question))
+      expect(positions).toEqual([...positions].sort())
+      drawn.forEach((question, index) => expect(question.index).toBe(index))
+    })
+
+    it('should shuffle the order of the questions', () => {
+      quiz.setShuffle(true)
+      let random = 0
+      quiz.draw(() => (random = (random + 0.37) % 1))
+
+      expect(quiz.questions.toArray()).not.toEqual(questions)
+      expect(quiz.questions.toSet()).toEqual(Set(questions))
+    })
+
+    it('should only draw once', () => {
+      quiz.setPools([{ questions: [0, 1, 2, 3, 4, 5], pick: 3 }])
+      quiz.draw()
+      const drawn = quiz.questions
+      quiz.draw()
+      expect(quiz.questions.equals(drawn)).toBe(true)
+    })
+
+    it('should keep every question and the pools', () => {
+      const pools = [{ questions: [0, 1, 2, 3, 4, 5], pick: 3 }]
+      quiz.setPools(pools)
+      quiz.setShuffle(true)
+      quiz.draw()
+
+      expect(quiz.numQuestions).toBe(3)
+      expect(quiz.allQuestions.toArray()).toEqual(questions)
+      expect(quiz.pools.toArray()).toEqual(pools)
+      expect(quiz.shuffle).toBe(true)
+    })
+
+    it('should serialize every question and the questions drawn', () => {
+      quiz.setPools([{ questions: [0, 1, 2, 3, 4, 5], pick: 3 }])
+      quiz.draw()
+      const data = quiz.serialize()
+
+      expect(data.questions).toHaveLength(6)
+      expect(data.drawn).toHaveLength(3)
+      expect(data.pools).toEqual(quiz.pools.toArray())
+    })
+
+    it('should remove drawn questions from every question', () => {
+      quiz.setPools([{ questions: [0, 1, 2, 3, 4, 5], pick: 3 }])
+      quiz.draw()
+      const removed = quiz.questionAt(1)!
+      quiz.removeQuestion(1)
+
+      expect(quiz.numQuestions).toBe(2)
+      expect(quiz.allQuestions.size).toBe(5)
+      expect(quiz.allQuestions.includes(removed)).toBe(false)
+      expect(quiz.pools.first()!.questions).toEqual([0, 1, 2, 3, 4])
+    })
   })
 
   describe('advanceToNextQuestion', () => {
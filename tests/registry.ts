@@ -0,0 +1,223 @@
+import {
+  QuestionBodyType,
+  QuestionFormat,
+  QuestionSubmission,
+  QuestionViewBodyType,
+  ResponseType,
+  Seconds,
+} from 'api/question'
+import { Result, unwrap } from 'result'
+import {
+  fromSerialized,
+  fromSubmission,
+  Question,
+  Quiz,
+  registerQuestionType,
+  responseToString,
+  toQtiPackage,
+  validateResponse,
+} from 'session/quiz'
+
+// An in-house format that is not part of QuestionFormat
+const WordFormat = 100
+
+interface Word {
+  type: typeof WordFormat
+  word: string
+  points: number
+}
+
+interface WordSubmission {
+  type?: typeof WordFormat
+  word?: string
+  points?: number
+}
+
+interface WordView {
+  type: typeof WordFormat
+}
+
+interface WordResponse {
+  type: typeof WordFormat
+  submitter: string
+  answer: string
+}
+
+declare module 'api/question' {
+  interface QuestionFormatTypes {
+    [WordFormat]: {
+      submission: WordSubmission
+      body: Word
+      view: WordView
+      response: WordResponse
+    }
+  }
+}
+
+class WordQuestion extends Question {
+  private _word: string
+
+  get body(): QuestionBodyType {
+    return {
+      type: WordFormat,
+      word: this._word,
+      points: this.totalPoints,
+    }
+  }
+
+  get viewBody(): QuestionViewBodyType {
+    return { type: WordFormat }
+  }
+
+  get correctAnswers(): string[] {
+    return [this._word]
+  }
+
+  constructor(text: string, body: Word, timeLimit: Seconds) {
+    super(text, timeLimit)
+    this._word = body.word
+    this._totalPoints = body.points
+  }
+
+  frequencyOf(response: ResponseType): number {
+    return this._frequency.get(response.answer.toString()) ?? 0
+  }
+
+  clone(): Question {
+    const copy = new WordQuestion(
+      this.text,
+      { type: WordFormat, word: this._word, points: this.totalPoints },
+      this.timeLimit
+    )
+    this.copyStateTo(copy)
+    return copy
+  }
+
+  protected gradeResponse(response: ResponseType): number {
+    return response.answer === this._word ? this.totalPoints : 0
+  }
+
+  protected updateFrequency(response: ResponseType) {
+    const answer = response.answer.toString()
+    this._frequency = this._frequency.set(
+      answer,
+      (this._frequency.get(answer) ?? 0) + 1
+    )
+  }
+}
+
+registerQuestionType<WordSubmission, Word, WordResponse>(WordFormat, {
+  fromSubmission: (text, body, timeLimit) =>
+    body?.word == null || body.points == null
+      ? { type: Result.Failure, errors: [{ field: 'word', value: null }] }
+      : {
+          type: Result.Success,
+          data: new WordQuestion(
+            text!,
+            { type: WordFormat, word: body.word, points: body.points },
+            timeLimit!
+          ),
+        },
+  fromBody: (text, body, timeLimit) => new WordQuestion(text, body, timeLimit),
+  validateResponse: (response) => typeof response.answer === 'string',
+  responseToString: (response) => response.answer.toUpperCase(),
+})
+
+describe('question type registry', () => {
+  const submission: QuestionSubmission = {
+    text: 'What is the magic word?',
+    body: { type: WordFormat, word: 'please', points: 100 },
+    timeLimit: Question.minTimeLimit,
+  }
+
+  const response: ResponseType = {
+    type: WordFormat,
+    submitter: 'a',
+    answer: 'please',
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should create registered types from submissions', () => {
+    const question = unwrap(fromSubmission(submission))
+    expect(question).toBeInstanceOf(WordQuestion)
+    expect(question.correctAnswers).toEqual(['please'])
+
+    expect(
+      fromSubmission({ ...submission, body: { type: WordFormat } })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'word', value: null }],
+    })
+  })
+
+  it('should reject unregistered types', () => {
+    expect(
+      fromSubmission({ ...submission, body: { type: WordFormat + 1 } })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'body', value: null }],
+    })
+    expect(validateResponse({ ...response, type: WordFormat + 1 })).toBe(false)
+  })
+
+  it('should validate and describe responses with the registered type', () => {
+    expect(validateResponse(response)).toBe(true)
+    // @ts-ignore
+    expect(validateResponse({ ...response, answer: 1 })).toBe(false)
+    expect(responseToString(response)).toBe('PLEASE')
+  })
+
+  it('should grade and restore registered types', () => {
+    const question = unwrap(fromSubmission(submission))
+    question.start()
+    expect(question.addResponse(response)).toBe(100)
+
+    const restored = fromSerialized(question.serialize())!
+    expect(restored).toBeInstanceOf(WordQuestion)
+    expect(restored.pointsFor('a')).toBe(100)
+    expect(restored.frequencyOf(response)).toBe(1)
+  })
+
+  it('should leave registered types out of QTI packages', () => {
+    const quiz = new Quiz()
+    quiz.addQuestion(unwrap(fromSubmission(submission)))
+    quiz.addQuestion(
+      unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.FillInFormat,
+            answers: [{ text: 'One', points: 100 }],
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+    )
+
+    const paths = toQtiPackage(quiz).map((file) => file.path)
+    expect(paths).toEqual([
+      'imsmanifest.xml',
+      'assessment.xml',
+      'items/item-1.xml',
+    ])
+  })
+
+  it('should not register a format twice', () => {
+    expect(() =>
+      registerQuestionType(QuestionFormat.NumericFormat, {
+        fromSubmission: () => ({ type: Result.Failure, errors: [] }),
+        fromBody: () =>
+          new WordQuestion('', { type: WordFormat, word: '', points: 0 }, 0),
+        validateResponse: () => true,
+        responseToString: () => '',
+      })
+    ).toThrow()
+  })
+})
@@ -0,0 +1,104 @@
+import { QuestionFormat } from 'api/question'
+import { unwrap } from 'result'
+import { resultsToCsv, Session, sessionResults, userResults } from 'session'
+import { fromSubmission, Question } from 'session/quiz'
+import { User } from 'session/user'
+
+describe('results', () => {
+  let session: Session
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    session = new Session('owner')
+    session.addUser(new User('a', 'aId'))
+    session.addUser(new User('b', 'bId'))
+    session.quiz.addQuestion(
+      unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'Right', points: 100 },
+              { text: 'Wrong', points: 0 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+    )
+    session.start()
+    session.quiz.advanceToNextQuestion()!.addResponse({
+      type: QuestionFormat.MultipleChoiceFormat,
+      submitter: 'a',
+      answer: 0,
+    })
+    session.end()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('sessionResults', () => {
+    it('should contain every user and every response', () => {
+      const results = sessionResults(session)
+      expect(results.leaderboard.map((entry) => entry.name)).toEqual(['a', 'b'])
+      expect(results.questions).toEqual([
+        {
+          index: 0,
+          text: 'Question',
+          totalPoints: 100,
+          correctAnswers: ['Right'],
+          responses: [{ user: 'a', response: '0', points: 100 }],
+        },
+      ])
+    })
+  })
+
+  describe('userResults', () => {
+    it('should contain the user response and correct answer', () => {
+      expect(userResults(session, 'a')).toEqual({
+        name: 'a',
+        points: 100,
+        correct: 1,
+        rank: 1,
+        questions: [
+          {
+            index: 0,
+            text: 'Question',
+            totalPoints: 100,
+            response: '0',
+            correctAnswers: ['Right'],
+            points: 100,
+          },
+        ],
+      })
+    })
+
+    it('should have null response for users that did not respond', () => {
+      expect(userResults(session, 'b')!.questions[0]!.response).toBeNull()
+    })
+
+    it('should be undefined for unknown users', () => {
+      expect(userResults(session, 'c')).toBeUndefined()
+    })
+  })
+
+  describe('resultsToCsv', () => {
+    it('should have a row per user with points and responses', () => {
+      expect(resultsToCsv(session).split('\r\n')).toEqual([
+        'Name,Q1 Points,Q1 Response,Total',
+        'a,100,0,100',
+        'b,0,,0',
+      ])
+    })
+
+    it('should escape fields that are not plain text', () => {
+      const other = new Session('owner')
+      other.addUser(new User('=1+1, "x"', 'id'))
+      expect(resultsToCsv(other).split('\r\n')[1]).toBe(`"'=1+1, ""x""",0`)
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import { QuestionFormat } from 'api/question'
+import { Result, unwrap } from 'result'
+import { Scoreboard } from 'session'
+import { fromSubmission, Question, Quiz } from 'session/quiz'
+import ScaleQuestion from 'session/quiz/question/scale'
+
+describe('ScaleQuestion', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 1,
+          max: 5,
+          minLabel: 'Strongly disagree',
+          maxLabel: 'Strongly agree',
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as ScaleQuestion
+    expect(question).not.toBeUndefined()
+    expect(question.isGraded).toBe(false)
+    expect(question.view.body).toEqual({
+      type: QuestionFormat.ScaleFormat,
+      min: 1,
+      max: 5,
+      minLabel: 'Strongly disagree',
+      maxLabel: 'Strongly agree',
+    })
+  })
+
+  it('validate should reject scales that are too small or too large', () => {
+    expect(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 1,
+          max: 1,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'max', value: 1 }],
+    })
+    let question = unwrap(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 1,
+          max: 1 + Question.maxScaleSize,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('validate should reject ratings that are not whole numbers', () => {
+    expect(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 0.5,
+          max: 5,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ).toEqual({
+      type: Result.Failure,
+      errors: [{ field: 'min', value: 0.5 }],
+    })
+  })
+
+  it('should reject ratings that are not on the scale', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 1,
+          max: 5,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as ScaleQuestion
+    question.start()
+    expect(() =>
+      question.addResponse({
+        type: QuestionFormat.ScaleFormat,
+        submitter: 'a',
+        answer: 6,
+      })
+    ).toThrow()
+    expect(() =>
+      question.addResponse({
+        type: QuestionFormat.ScaleFormat,
+        submitter: 'b',
+        answer: 2.5,
+      })
+    ).toThrow()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.ScaleFormat,
+        submitter: 'c',
+        answer: 5,
+      })
+    ).toBe(0)
+  })
+
+  it('should report the mean, median, and distribution', () => {
+    jest.useFakeTimers()
+    let question = unwrap(
+      fromSubmission({
+        text: 'The lectures were clear',
+        body: {
+          type: QuestionFormat.ScaleFormat,
+          min: 1,
+          max: 5,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as ScaleQuestion
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.ScaleFormat,
+      mean: null,
+      median: null,
+      distribution: [0, 0, 0, 0, 0],
+    })
+
+    question.start()
+    ;[5, 4, 1, 4].forEach((answer, index) => {
+      question.addResponse({
+        type: QuestionFormat.ScaleFormat,
+        submitter: index.toString(),
+        answer,
+      })
+    })
+    expect(question.statistics).toEqual({
+      type: QuestionFormat.ScaleFormat,
+      mean: 3.5,
+      median: 4,
+      distribution: [1, 0, 0, 2, 1],
+    })
+  })
+
+  it('should be left out of scores', () => {
+    jest.useFakeTimers()
+    let quiz = new Quiz()
+    quiz.addQuestion(
+      unwrap(
+        fromSubmission({
+          text: 'The lectures were clear',
+          body: {
+            type: QuestionFormat.ScaleFormat,
+            min: 1,
+            max: 5,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )!
+    )
+    quiz.advanceToNextQuestion()
+    quiz.currentQuestion!.addResponse({
+      type: QuestionFormat.ScaleFormat,
+      submitter: 'a',
+      answer: 5,
+    })
+    expect(new Scoreboard(quiz, ['a']).entryFor('a')).toEqual({
+      name: 'a',
+      points: 0,
+      correct: 0,
+      rank: 1,
+    })
+  })
+})
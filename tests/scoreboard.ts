@@ -0,0 +1,118 @@
+import { QuestionFormat } from 'api/question'
+import { unwrap } from 'result'
+import { Scoreboard } from 'session'
+import { fromSubmission, Question, Quiz } from 'session/quiz'
+
+describe('Scoreboard', () => {
+  let quiz: Quiz
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    quiz = new Quiz()
+    for (let i = 0; i < 2; ++i) {
+      quiz.addQuestion(
+        unwrap(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [
+                { text: 'Right', points: 100 },
+                { text: 'Close', points: 50 },
+              ],
+            },
+            timeLimit: Question.minTimeLimit,
+          })
+        )
+      )
+    }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  function respond(submitter: string, answer: string) {
+    quiz.currentQuestion!.addResponse({
+      type: QuestionFormat.FillInFormat,
+      submitter,
+      answer,
+    })
+  }
+
+  it('should total points and fully correct answers across questions', () => {
+    quiz.advanceToNextQuestion()
+    respond('a', 'Right')
+    respond('b', 'Close')
+    quiz.advanceToNextQuestion()
+    respond('a', 'Wrong')
+    respond('b', 'Close')
+
+    const scoreboard = new Scoreboard(quiz, ['a', 'b'])
+    expect(scoreboard.entryFor('a')).toEqual({
+      name: 'a',
+      points: 100,
+      correct: 1,
+      rank: 1,
+    })
+    expect(scoreboard.entryFor('b')).toEqual({
+      name: 'b',
+      points: 100,
+      correct: 0,
+      rank: 1,
+    })
+  })
+
+  it('should count the answer of a multiple choice question as correct', () => {
+    quiz = new Quiz()
+    quiz.addQuestion(
+      unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'Right', points: 40 },
+              { text: 'Wrong', points: 60 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+    )
+    quiz.advanceToNextQuestion()
+    quiz.currentQuestion!.addResponse({
+      type: QuestionFormat.MultipleChoiceFormat,
+      submitter: 'a',
+      answer: 0,
+    })
+
+    const scoreboard = new Scoreboard(quiz, ['a'])
+    expect(scoreboard.entryFor('a')).toEqual({
+      name: 'a',
+      points: 40,
+      correct: 1,
+      rank: 1,
+    })
+  })
+
+  it('should rank users by points, with ties sharing a rank', () => {
+    quiz.advanceToNextQuestion()
+    respond('a', 'Close')
+    respond('b', 'Right')
+    respond('c', 'Close')
+
+    const scoreboard = new Scoreboard(quiz, ['a', 'b', 'c', 'd'])
+    expect(scoreboard.entries.map((entry) => entry.rank).toArray()).toEqual([
+      1, 2, 2, 4,
+    ])
+    expect(scoreboard.entries.first()!.name).toBe('b')
+    expect(scoreboard.entryFor('d')!.points).toBe(0)
+  })
+
+  it('should limit top to the requested count', () => {
+    const scoreboard = new Scoreboard(quiz, ['a', 'b', 'c'])
+    expect(scoreboard.top(2).size).toBe(2)
+  })
+})
@@ -17,7 +17,7 @@ describe('Server', () => {
   let sessionOwner: Socket
 
   beforeAll((done) => {
-    httpServer = createSocketServer()
+    httpServer = createSocketServer({ ownerGracePeriod: 1 })
     port = (httpServer.listen().address() as AddressInfo).port
     done()
   })
@@ -43,10 +43,14 @@ describe('Server', () => {
   describe('when managing sessions', () => {
     // id of the session
     let id: string
+    // owner token of the session
+    let token: string
     // user joining session
     let user: Socket
     // name of user joining session
     let name: string
+    // rejoin token of user joining session
+    let userToken: string
 
     beforeEach((done) => {
       user = io(`http://localhost:${port}`)
@@ -57,6 +61,7 @@ describe('Server', () => {
           (res: EventResponse) => {
             if (res.status === ResponseStatus.Success) {
               id = res.session
+              token = (<responses.CreateSessionSuccess>res).data.token
               name = nanoid(4)
               const joinArgs: requests.JoinSession = {
                 id,
@@ -69,6 +74,7 @@ describe('Server', () => {
                 joinArgs,
                 (res: EventResponse) => {
                   if (res.status === ResponseStatus.Success) {
+                    userToken = (<responses.JoinSessionSuccess>res).data.token
                     done()
                   }
                 }
@@ -270,6 +276,35 @@ describe('Server', () => {
       )
     })
 
+    it('should send results to owner and users when session ends', (done) => {
+      let ownerReceived = false
+      let userReceived = false
+
+      user.on(SessionEvent.UserResults, (res: responses.UserResultsReady) => {
+        expect(res.data.name).toBe(name)
+        expect(res.data.questions).toEqual([])
+        userReceived = true
+        if (ownerReceived && userReceived) {
+          done()
+        }
+      })
+
+      sessionOwner.on(
+        SessionEvent.SessionResults,
+        (res: responses.SessionResultsReady) => {
+          expect(res.data.leaderboard).toHaveLength(1)
+          ownerReceived = true
+          if (ownerReceived && userReceived) {
+            done()
+          }
+        }
+      )
+
+      sessionOwner.emit(SessionEvent.StartSession, { session: id }, () => {
+        sessionOwner.emit(SessionEvent.EndSession, { session: id }, () => {})
+      })
+    })
+
     it('should notify users that session ends when owner disconnects', (done) => {
       user.on(SessionEvent.SessionEnded, () => {
         done()
@@ -278,6 +313,86 @@ describe('Server', () => {
       sessionOwner.disconnect()
     })
 
+    it('should notify users when owner disconnects before ending session', (done) => {
+      let ownerDisconnected = false
+      user.on(
+        SessionEvent.OwnerDisconnected,
+        (res: responses.OwnerDisconnected) => {
+          expect(res.session).toBe(id)
+          expect(res.data.gracePeriod).toBe(1)
+          ownerDisconnected = true
+        }
+      )
+      user.on(SessionEvent.SessionEnded, () => {
+        expect(ownerDisconnected).toBe(true)
+        done()
+      })
+
+      sessionOwner.disconnect()
+    })
+
+    it('should allow owner to resume session with token', (done) => {
+      const newOwner = io(`http://localhost:${port}`)
+      let userReceived = false
+      let ownerReceived = false
+
+      user.on(SessionEvent.OwnerDisconnected, () => {
+        newOwner.emit(
+          SessionEvent.ResumeSession,
+          { session: id, token },
+          (res: EventResponse) => {
+            expect(res.status).toBe(ResponseStatus.Success)
+            expect(res.event).toBe(SessionEvent.ResumeSession)
+            expect((<responses.ResumeSessionSuccess>res).data).toEqual({
+              isStarted: false,
+              hasEnded: false,
+              index: -1,
+              question: null,
+            })
+            ownerReceived = true
+            if (userReceived && ownerReceived) {
+              newOwner.close()
+              done()
+            }
+          }
+        )
+      })
+      user.on(SessionEvent.OwnerReconnected, () => {
+        userReceived = true
+        if (userReceived && ownerReceived) {
+          newOwner.close()
+          done()
+        }
+      })
+      user.on(SessionEvent.SessionEnded, () => {
+        expect('SessionEnded').toBe('No Event')
+        newOwner.close()
+        done()
+      })
+
+      newOwner.on('connect', () => {
+        sessionOwner.disconnect()
+      })
+      newOwner.connect()
+    })
+
+    it('should NOT allow resuming session with wrong token', (done) => {
+      const newOwner = io(`http://localhost:${port}`)
+      newOwner.on('connect', () => {
+        newOwner.emit(
+          SessionEvent.ResumeSession,
+          { session: id, token: 'wrong' },
+          (res: EventResponse) => {
+            expect(res.status).toBe(ResponseStatus.Failure)
+            expect(res.event).toBe(SessionEvent.ResumeSession)
+            newOwner.close()
+            done()
+          }
+        )
+      })
+      newOwner.connect()
+    })
+
     it('should notify users when another user disconnects', (done) => {
       sessionOwner.on(
         SessionEvent.UserDisconnected,
@@ -413,6 +528,8 @@ describe('Server', () => {
 
         user.on(SessionEvent.NextQuestion, (res: responses.NextQuestion) => {
           const { index, question: resQuestion } = res.data
+          // Users should not be sent the answer
+          expect(resQuestion.body).not.toHaveProperty('answer')
           if (resQuestion.text === question.text && index === 0) {
             userReceived = true
             // If both pushing question and receiving question worked, pass test
@@ -495,6 +612,7 @@ describe('Server', () => {
               firstCorrect: name,
               frequency: 1,
               relativeFrequency: 1,
+              statistics: null,
             })
 
             ownerReceived = true
@@ -509,6 +627,89 @@ describe('Server', () => {
         sessionOwner.emit(SessionEvent.NextQuestion, { session: id }, () => {})
       })
 
+      it('should grade responses for the user who sent them', (done) => {
+        user.on(SessionEvent.NextQuestion, () => {
+          const response: requests.QuestionResponse = {
+            session: id,
+            name,
+            index: 0,
+            response: {
+              type: QuestionFormat.MultipleChoiceFormat,
+              answer: 1,
+              submitter: `${name}-classmate`,
+            },
+          }
+          user.emit(SessionEvent.QuestionResponse, response, () => {})
+        })
+
+        sessionOwner.on(
+          SessionEvent.QuestionResponseAdded,
+          (res: EventResponse) => {
+            const data = (<responses.QuestionResponseAdded>res).data
+            expect(data.user).toBe(name)
+            expect(data.firstCorrect).toBe(name)
+            done()
+          }
+        )
+
+        sessionOwner.emit(SessionEvent.NextQuestion, { session: id }, () => {})
+      })
+
+      it('should allow users to rejoin and receive the current question', (done) => {
+        const rejoiningUser = io(`http://localhost:${port}`)
+
+        sessionOwner.on(SessionEvent.UserDisconnected, () => {
+          // Reconnect as the same user once the server removed the old socket
+          rejoiningUser.connect()
+        })
+
+        rejoiningUser.on('connect', () => {
+          const rejoinArgs: requests.RejoinSession = {
+            id,
+            name,
+            token: userToken,
+          }
+          rejoiningUser.emit(
+            SessionEvent.RejoinSession,
+            rejoinArgs,
+            (res: EventResponse) => {
+              expect(res.status).toBe(ResponseStatus.Success)
+              expect(res.event).toBe(SessionEvent.RejoinSession)
+              const data = (<responses.RejoinSessionSuccess>res).data
+              expect(data.isStarted).toBe(true)
+              expect(data.question?.index).toBe(0)
+              expect(data.question?.question.text).toBe(question.text)
+              expect(data.question?.responded).toBe(false)
+              expect(data.question?.timeRemaining).toBeGreaterThan(0)
+              rejoiningUser.close()
+              done()
+            }
+          )
+        })
+
+        // Push next question, then disconnect the user
+        sessionOwner.emit(SessionEvent.NextQuestion, { session: id }, () => {
+          user.disconnect()
+        })
+      })
+
+      it('should NOT allow users to rejoin with wrong token', (done) => {
+        const rejoiningUser = io(`http://localhost:${port}`)
+        rejoiningUser.on('connect', () => {
+          rejoiningUser.emit(
+            SessionEvent.RejoinSession,
+            { id, name, token: 'wrong' },
+            (res: EventResponse) => {
+              expect(res.status).toBe(ResponseStatus.Failure)
+              expect(res.event).toBe(SessionEvent.RejoinSession)
+              rejoiningUser.close()
+              done()
+            }
+          )
+        })
+        rejoiningUser.connect()
+      })
+
       it('should allow session owner to end question', (done) => {
         let userReceived = false
         let ownerReceived = false
@@ -553,6 +754,60 @@ describe('Server', () => {
         })
       })
 
+      it('should send updated leaderboard when question ends', (done) => {
+        let userReceived = false
+        let ownerReceived = false
+
+        user.on(
+          SessionEvent.LeaderboardUpdated,
+          (res: responses.LeaderboardUpdated) => {
+            expect(res.data.question).toBe(0)
+            expect(res.data.leaderboard).toContainEqual({
+              name,
+              points: 200,
+              correct: 1,
+              rank: 1,
+            })
+            userReceived = true
+            if (userReceived && ownerReceived) {
+              done()
+            }
+          }
+        )
+
+        sessionOwner.on(
+          SessionEvent.LeaderboardUpdated,
+          (res: responses.LeaderboardUpdated) => {
+            expect(res.data.leaderboard).toHaveLength(1)
+            ownerReceived = true
+            if (userReceived && ownerReceived) {
+              done()
+            }
+          }
+        )
+
+        // Push question, respond correctly, then end the question
+        sessionOwner.emit(SessionEvent.NextQuestion, { session: id }, () => {
+          const response: requests.QuestionResponse = {
+            session: id,
+            name,
+            index: 0,
+            response: {
+              type: QuestionFormat.MultipleChoiceFormat,
+              answer: 1,
+              submitter: name,
+            },
+          }
+          user.emit(SessionEvent.QuestionResponse, response, () => {
+            sessionOwner.emit(
+              SessionEvent.EndQuestion,
+              { session: id, question: 0 },
+              () => {}
+            )
+          })
+        })
+      })
+
       it('should allow users to submit feedback', (done) => {
         let userReceived = false
         let ownerReceived = false
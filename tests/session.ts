@@ -0,0 +1,168 @@
+import { QuestionFormat } from 'api/question'
+import { JoinPolicy } from 'api/session'
+import { unwrap } from 'result'
+import { Session } from 'session'
+import { fromSubmission, Question } from 'session/quiz'
+import { User } from 'session/user'
+
+describe('Session', () => {
+  // SUT
+  let session: Session
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    session = new Session('owner')
+    for (let i = 0; i < 2; ++i) {
+      session.quiz.addQuestion(
+        unwrap(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [{ text: 'One', points: 100 }],
+            },
+            timeLimit: Question.minTimeLimit,
+          })
+        )
+      )
+    }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('start', () => {
+    it('should draw the questions to ask from the quiz', () => {
+      session.quiz.setPools([{ questions: [0, 1], pick: 1 }])
+      session.start()
+      expect(session.quiz.numQuestions).toBe(1)
+      expect(session.quiz.questionAt(0)!.index).toBe(0)
+    })
+
+    it('should keep the questions drawn when restored', () => {
+      session.quiz.setPools([{ questions: [0, 1], pick: 1 }])
+      session.start()
+      const restored = Session.deserialize(session.serialize())
+
+      expect(restored.quiz.numQuestions).toBe(1)
+      expect(restored.quiz.allQuestions.size).toBe(2)
+      expect(restored.quiz.pools.toArray()).toEqual([
+        { questions: [0, 1], pick: 1 },
+      ])
+    })
+
+    it('should drop questions with unknown formats when restored', () => {
+      session.quiz.addQuestion(
+        unwrap(
+          fromSubmission({
+            text: 'Question',
+            body: {
+              type: QuestionFormat.FillInFormat,
+              answers: [{ text: 'One', points: 100 }],
+            },
+            timeLimit: Question.minTimeLimit,
+          })
+        )
+      )
+      session.quiz.setPools([{ questions: [0, 1, 2], pick: 3 }])
+      session.start()
+      session.quiz.advanceToNextQuestion()
+      session.quiz.advanceToNextQuestion()
+      const data = session.serialize()
+      // @ts-ignore
+      data.quiz.questions[0]!.body.type = 'Removed'
+      const restored = Session.deserialize(data)
+
+      expect(restored.quiz.numQuestions).toBe(2)
+      expect(restored.quiz.currentQuestionIndex).toBe(0)
+      expect(restored.quiz.currentQuestion!.serialize()).toEqual({
+        ...data.quiz.questions[1],
+        index: 0,
+      })
+      expect(restored.quiz.questionAt(1)!.index).toBe(1)
+      expect(restored.quiz.pools.toArray()).toEqual([
+        { questions: [0, 1], pick: 2 },
+      ])
+    })
+  })
+
+  describe('addUser', () => {
+    it('should reject users after start by default', () => {
+      session.start()
+      expect(session.addUser(new User('user', 'id'))).toBe(false)
+    })
+
+    it('should accept users after start if open until end', () => {
+      session.setJoinPolicy(JoinPolicy.OpenUntilEnd)
+      session.start()
+      session.quiz.advanceToNextQuestion()
+      session.quiz.advanceToNextQuestion()
+      expect(session.addUser(new User('user', 'id'))).toBe(true)
+
+      session.end()
+      expect(session.addUser(new User('late', 'lateId'))).toBe(false)
+    })
+
+    it('should accept users until past the given question if open until question', () => {
+      session.setJoinPolicy(JoinPolicy.OpenUntilQuestion, 0)
+      session.start()
+      session.quiz.advanceToNextQuestion()
+      expect(session.addUser(new User('user', 'id'))).toBe(true)
+
+      session.quiz.advanceToNextQuestion()
+      expect(session.addUser(new User('late', 'lateId'))).toBe(false)
+    })
+  })
+
+  describe('validateJoinPolicy', () => {
+    it('should reject unknown policies', () => {
+      expect(Session.validateJoinPolicy(<JoinPolicy>10)).toContainEqual({
+        field: 'joinPolicy',
+        value: 10,
+      })
+    })
+
+    it('should reject names of policies and other keys', () => {
+      ;['OpenUntilEnd', 'toString', '__proto__'].forEach((policy) => {
+        expect(
+          Session.validateJoinPolicy(policy as unknown as JoinPolicy)
+        ).toContainEqual({ field: 'joinPolicy', value: policy })
+      })
+    })
+
+    it('should require a question index for OpenUntilQuestion', () => {
+      expect(
+        Session.validateJoinPolicy(JoinPolicy.OpenUntilQuestion)
+      ).toContainEqual({
+        field: 'joinUntilQuestion',
+        value: null,
+      })
+      expect(
+        Session.validateJoinPolicy(JoinPolicy.OpenUntilQuestion, 1)
+      ).toHaveLength(0)
+    })
+  })
+
+  describe('rejoinUser', () => {
+    let user: User
+    beforeEach(() => {
+      user = new User('user', 'id')
+      session.addUser(user)
+      session.start()
+      session.disconnectUser(user.name)
+    })
+
+    it('should associate the user with the new id', () => {
+      const rejoined = session.rejoinUser(user.name, user.token, 'newId')
+      expect(rejoined?.name).toBe(user.name)
+      expect(session.findUserById('newId')).toBe(rejoined)
+      expect(session.findUserByName(user.name)).toBe(rejoined)
+    })
+
+    it('should reject the wrong token', () => {
+      expect(session.rejoinUser(user.name, 'wrong', 'newId')).toBeUndefined()
+      expect(session.findUserById('newId')).toBeUndefined()
+    })
+  })
+})
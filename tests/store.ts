@@ -0,0 +1,138 @@
+import { QuestionFormat } from 'api/question'
+import { JoinPolicy } from 'api/session'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { unwrap } from 'result'
+import { Session } from 'session'
+import { fromSubmission, Question } from 'session/quiz'
+import { FileSessionStore, MemorySessionStore } from 'session/store'
+import { User } from 'session/user'
+
+describe('SessionStore', () => {
+  let session: Session
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+
+    session = new Session('owner')
+    session.addUser(new User('user', 'userId'))
+    session.quiz.addQuestion(
+      unwrap(
+        fromSubmission({
+          text: 'Question',
+          body: {
+            type: QuestionFormat.MultipleChoiceFormat,
+            choices: [
+              { text: 'One', points: 100 },
+              { text: 'Two', points: 0 },
+            ],
+            answer: 0,
+          },
+          timeLimit: Question.minTimeLimit,
+        })
+      )
+    )
+    session.start()
+    session.quiz.advanceToNextQuestion()!.addResponse({
+      type: QuestionFormat.MultipleChoiceFormat,
+      submitter: 'user',
+      answer: 0,
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('MemorySessionStore', () => {
+    it('should restore saved sessions with their responses', () => {
+      const store = new MemorySessionStore()
+      store.save(session)
+
+      const [restored] = store.load()
+      expect(restored!.id).toBe(session.id)
+      expect(restored!.owner).toBe(session.owner)
+      expect(restored!.isStarted).toBe(true)
+      expect(restored!.findUserByName('user')?.id).toBe('userId')
+      // Restored users must rejoin with a new socket
+      expect(restored!.findUserById('userId')).toBeUndefined()
+
+      const question = restored!.quiz.currentQuestion!
+      expect(question.numResponses).toBe(1)
+      expect(question.firstCorrect).toBe('user')
+      expect(question.body).toEqual(session.quiz.currentQuestion!.body)
+    })
+
+    it('should not restore removed sessions', () => {
+      const store = new MemorySessionStore()
+      store.save(session)
+      store.remove(session.id)
+      expect(store.load()).toHaveLength(0)
+    })
+  })
+
+  describe('FileSessionStore', () => {
+    let dir: string
+    let path: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'quizez-'))
+      path = join(dir, 'sessions.json')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should restore sessions written by a previous store', async () => {
+      const store = new FileSessionStore(path)
+      store.save(session)
+      await store.flush()
+
+      const [restored] = new FileSessionStore(path).load()
+      expect(restored!.serialize()).toEqual(session.serialize())
+    })
+
+    it('should wait before writing changes', async () => {
+      const store = new FileSessionStore(path)
+      store.save(session)
+      store.save(session)
+      expect(existsSync(path)).toBe(false)
+
+      jest.advanceTimersByTime(FileSessionStore.writeDelay)
+      await store.flush()
+      expect(new FileSessionStore(path).load()).toHaveLength(1)
+    })
+
+    it('should not throw when the file cannot be written', async () => {
+      const store = new FileSessionStore(join(dir, 'missing', 'sessions.json'))
+      store.save(session)
+      await expect(store.flush()).resolves.toBeUndefined()
+    })
+
+    it('should restore sessions from the first version of the file', () => {
+      const data = session.serialize()
+      delete data.ownerToken
+      delete data.joinPolicy
+      delete data.joinUntilQuestion
+      delete data.quiz.title
+      data.users.forEach((user) => delete user.token)
+      data.quiz.questions.forEach((question) => {
+        delete question.points
+        delete question.explanation
+      })
+      writeFileSync(path, JSON.stringify({ version: 1, sessions: [data] }))
+
+      const [restored] = new FileSessionStore(path).load()
+      expect(restored!.joinPolicy).toBe(JoinPolicy.ClosedAfterStart)
+      expect(restored!.quiz.title).toBe('')
+      expect(restored!.quiz.currentQuestion!.pointsFor('user')).toBe(100)
+    })
+
+    it('should ignore an unreadable file', () => {
+      writeFileSync(path, 'not json')
+      expect(new FileSessionStore(path).load()).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { QuestionFormat } from 'api/question'
+import { unwrap } from 'result'
+import { fromSubmission, Question } from 'session/quiz'
+import TrueFalseQuestion from 'session/quiz/question/truefalse'
+
+describe('TrueFalseQuestion', () => {
+  let question: TrueFalseQuestion
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.TrueFalseFormat,
+          answer: false,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    ) as TrueFalseQuestion
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should successfully validate a valid Question', () => {
+    expect(question).not.toBeUndefined()
+    expect(question.answer).toBe(false)
+    expect(question.totalPoints).toBe(100)
+  })
+
+  it('validate should reject questions with too few points', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.TrueFalseFormat,
+          answer: true,
+          points: 0,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('validate should reject questions without an answer', () => {
+    let question = unwrap(
+      fromSubmission({
+        text: 'Question',
+        body: {
+          type: QuestionFormat.TrueFalseFormat,
+          points: 100,
+        },
+        timeLimit: Question.minTimeLimit,
+      })
+    )
+    expect(question).toBeUndefined()
+  })
+
+  it('should grade responses and track their frequency', () => {
+    question.start()
+    expect(
+      question.addResponse({
+        type: QuestionFormat.TrueFalseFormat,
+        submitter: 'a',
+        answer: false,
+      })
+    ).toBe(100)
+    expect(
+      question.addResponse({
+        type: QuestionFormat.TrueFalseFormat,
+        submitter: 'b',
+        answer: true,
+      })
+    ).toBe(0)
+    expect(question.frequency.toObject()).toEqual({ true: 1, false: 1 })
+  })
+
+  describe('view', () => {
+    it('should not contain the answer', () => {
+      expect(question.view.body).toEqual({
+        type: QuestionFormat.TrueFalseFormat,
+      })
+    })
+  })
+})